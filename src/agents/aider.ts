@@ -1,26 +1,24 @@
 import * as core from "@actions/core";
-import { spawnSync } from "child_process";
-import * as os from "os";
-import * as path from "path";
-import * as fs from "fs";
 
 import type { ExecResult } from "../types";
+import { DEFAULT_AGENT_TIMEOUT_MS } from "./types";
 import type { Agent, AgentParams } from "./types";
-import { exec } from "../utils";
+import { scrubEnv } from "../secrets";
+import { exec, removePromptFile, spawnAsync, writePromptFile } from "../utils";
 
 export const DEFAULT_AIDER_MODEL = "gpt-4o";
 
-export function installAider(version?: string): void {
+export async function installAider(version?: string): Promise<void> {
   core.info(`Installing Aider${version ? ` (version: ${version})` : ""}...`);
   const pkg = version ? `aider-chat==${version}` : "aider-chat";
-  const res = exec(`pip install ${pkg}`, { silent: true });
+  const res = await exec(`pip install ${pkg}`, { silent: true });
   if (res.exitCode !== 0) {
     throw new Error(`Failed to install Aider: ${res.stderr || res.stdout}`);
   }
   core.info("Aider installed successfully.");
 }
 
-export function runAider(params: AgentParams): ExecResult {
+export async function runAider(params: AgentParams): Promise<ExecResult> {
   // Validate at least one API key is present
   const hasOpenAI = params.openaiApiKey && params.openaiApiKey.trim() !== "";
   const hasAnthropic = params.anthropicApiKey && params.anthropicApiKey.trim() !== "";
@@ -34,8 +32,7 @@ export function runAider(params: AgentParams): ExecResult {
   }
 
   // Write prompt to a temp file to avoid shell escaping issues
-  const promptFile = path.join(os.tmpdir(), `aider-prompt-${Date.now()}.txt`);
-  fs.writeFileSync(promptFile, params.prompt, "utf8");
+  const promptFile = writePromptFile("aider-prompt", params.prompt, params.sandbox);
 
   // Build aider command arguments
   // --yes-always: auto-accept all confirmations including adding files (non-interactive)
@@ -63,7 +60,7 @@ export function runAider(params: AgentParams): ExecResult {
   core.info(`aider ${args.slice(0, -2).join(" ")} --message-file <prompt>`);
 
   // Build environment with API keys
-  const env: NodeJS.ProcessEnv = { ...process.env };
+  const env: NodeJS.ProcessEnv = { ...scrubEnv(process.env) };
   if (hasOpenAI) {
     env.OPENAI_API_KEY = params.openaiApiKey;
   }
@@ -74,26 +71,18 @@ export function runAider(params: AgentParams): ExecResult {
   // Run from working directory if specified, otherwise repo root
   const cwd = params.workingDirectory || params.repoRoot;
 
-  const result = spawnSync("aider", args, {
+  const result = await spawnAsync("aider", args, {
     cwd,
-    encoding: "utf8",
     env,
-    stdio: ["ignore", "pipe", "pipe"],
-    timeout: 600_000, // 10 minute timeout
+    timeoutMs: params.timeoutMs ?? DEFAULT_AGENT_TIMEOUT_MS,
+    group: "Aider output",
+    sandbox: params.sandbox,
   });
 
   // Clean up prompt file
-  try {
-    fs.unlinkSync(promptFile);
-  } catch {
-    // Ignore cleanup errors
-  }
+  removePromptFile(promptFile);
 
-  return {
-    stdout: result.stdout ?? "",
-    stderr: result.stderr ?? "",
-    exitCode: result.status ?? 1,
-  };
+  return result;
 }
 
 export const aiderAgent: Agent = {
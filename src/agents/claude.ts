@@ -0,0 +1,67 @@
+import * as core from "@actions/core";
+
+import type { ExecResult } from "../types";
+import { DEFAULT_AGENT_TIMEOUT_MS } from "./types";
+import type { Agent, AgentParams } from "./types";
+import { scrubEnv } from "../secrets";
+import { exec, spawnAsync } from "../utils";
+
+export const DEFAULT_CLAUDE_MODEL = "claude-sonnet-4-5";
+
+export async function installClaude(version?: string): Promise<void> {
+  core.info(`Installing Claude Code CLI${version ? ` (version: ${version})` : ""}...`);
+  const pkg = version ? `@anthropic-ai/claude-code@${version}` : "@anthropic-ai/claude-code";
+  const res = await exec(`npm install -g ${pkg}`, { silent: true });
+  if (res.exitCode !== 0) {
+    throw new Error(`Failed to install Claude Code CLI: ${res.stderr || res.stdout}`);
+  }
+  core.info("Claude Code CLI installed successfully.");
+}
+
+export async function runClaude(params: AgentParams): Promise<ExecResult> {
+  // Claude Code requires Anthropic API key
+  const hasAnthropic = params.anthropicApiKey && params.anthropicApiKey.trim() !== "";
+
+  if (!hasAnthropic) {
+    return {
+      stdout: "",
+      stderr: "Error: ANTHROPIC_API_KEY is required for Claude agent",
+      exitCode: 1,
+    };
+  }
+
+  // Build claude command arguments
+  // -p: headless (print) mode, reads the prompt from stdin and exits when done
+  // --permission-mode acceptEdits: apply file edits without interactive confirmation
+  // --output-format text: plain transcript on stdout
+  // --model: specify the model
+  const args = ["-p", "--permission-mode", "acceptEdits", "--output-format", "text", "--model", params.model];
+
+  core.info("Running Claude Code...");
+  core.info(`claude ${args.join(" ")} < prompt`);
+
+  // Scope the API key to the claude process only
+  const env: NodeJS.ProcessEnv = {
+    ...scrubEnv(process.env),
+    ANTHROPIC_API_KEY: params.anthropicApiKey!.trim(),
+  };
+
+  // Run from working directory if specified, otherwise repo root
+  const cwd = params.workingDirectory || params.repoRoot;
+
+  // Pass the prompt via stdin to avoid argument length limits and shell escaping issues
+  return spawnAsync("claude", args, {
+    cwd,
+    env,
+    input: params.prompt,
+    timeoutMs: params.timeoutMs ?? DEFAULT_AGENT_TIMEOUT_MS,
+    group: "Claude output",
+    sandbox: params.sandbox,
+  });
+}
+
+export const claudeAgent: Agent = {
+  name: "claude",
+  install: installClaude,
+  run: runClaude,
+};
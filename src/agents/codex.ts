@@ -1,24 +1,27 @@
 import * as core from "@actions/core";
-import { spawnSync } from "child_process";
 import * as os from "os";
 import * as path from "path";
 import * as fs from "fs";
 
 import type { ExecResult } from "../types";
+import { DEFAULT_AGENT_TIMEOUT_MS } from "./types";
 import type { Agent, AgentParams } from "./types";
-import { exec } from "../utils";
+import { scrubEnv } from "../secrets";
+import { exec, removePromptFile, spawnAsync, writePromptFile } from "../utils";
 
 export const DEFAULT_CODEX_MODEL = "gpt-5-codex";
 
-function configureCodex(): void {
-  // Create ~/.codex/config.toml with preferred_auth_method = "apikey"
-  const codexConfigDir = path.join(os.homedir(), ".codex");
-  const codexConfigFile = path.join(codexConfigDir, "config.toml");
+// A temporary CODEX_HOME for one run: `codex login` stores the API key there, so it must not outlive the run.
+// A sandboxed agent gets it in the sandbox home, with group bits that let its ACL entry write.
+function createCodexHome(sandbox: AgentParams["sandbox"]): string {
+  const codexHome = fs.mkdtempSync(path.join(sandbox?.home ?? os.tmpdir(), "codex-home-"));
+  if (sandbox) fs.chmodSync(codexHome, 0o770);
+  return codexHome;
+}
 
-  // Ensure the directory exists
-  if (!fs.existsSync(codexConfigDir)) {
-    fs.mkdirSync(codexConfigDir, { recursive: true });
-  }
+function configureCodex(codexConfigDir: string): void {
+  // Create $CODEX_HOME/config.toml with preferred_auth_method = "apikey"
+  const codexConfigFile = path.join(codexConfigDir, "config.toml");
 
   // Write the config file
   const configContent = 'preferred_auth_method = "apikey"\n';
@@ -26,17 +29,17 @@ function configureCodex(): void {
   core.info(`Codex config written to ${codexConfigFile}`);
 }
 
-export function installCodex(version?: string): void {
+export async function installCodex(version?: string): Promise<void> {
   core.info(`Installing Codex CLI${version ? ` (version: ${version})` : ""}...`);
   const pkg = version ? `@openai/codex@${version}` : "@openai/codex";
-  const res = exec(`npm install -g ${pkg}`, { silent: true });
+  const res = await exec(`npm install -g ${pkg}`, { silent: true });
   if (res.exitCode !== 0) {
     throw new Error(`Failed to install Codex CLI: ${res.stderr || res.stdout}`);
   }
   core.info("Codex CLI installed successfully.");
 }
 
-export function runCodex(params: AgentParams): ExecResult {
+export async function runCodex(params: AgentParams): Promise<ExecResult> {
   // Codex requires OpenAI API key
   const hasOpenAI = params.openaiApiKey && params.openaiApiKey.trim() !== "";
 
@@ -48,65 +51,71 @@ export function runCodex(params: AgentParams): ExecResult {
     };
   }
 
-  // Export OPENAI_API_KEY to the GitHub Actions environment (persists for the job)
-  core.exportVariable("OPENAI_API_KEY", params.openaiApiKey);
-
   // Step 1: Configure codex to use API key authentication (file-based)
-  configureCodex();
+  const codexHome = createCodexHome(params.sandbox);
+  try {
+    configureCodex(codexHome);
+    return await runCodexIn(codexHome, params);
+  } finally {
+    // Removes the stored API key; the sandbox teardown removes what the sandbox user's file modes keep from the runner
+    try {
+      fs.rmSync(codexHome, { recursive: true, force: true });
+    } catch (e) {
+      core.warning(`Could not remove ${codexHome}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+}
 
+async function runCodexIn(codexHome: string, params: AgentParams): Promise<ExecResult> {
   // Run from working directory if specified, otherwise repo root
   const cwd = params.workingDirectory || params.repoRoot;
 
-  // Build environment with API key for all commands (pass via env, not command string)
+  // Scope the API key to the codex processes only (pass via env, not command string)
   const env: NodeJS.ProcessEnv = {
-    ...process.env,
+    ...scrubEnv(process.env),
     OPENAI_API_KEY: params.openaiApiKey!.trim(),
+    CODEX_HOME: codexHome,
+    HOME: codexHome,
   };
 
   // Step 2: Non-interactive codex login with API key via stdin
   // Using printf to avoid adding a trailing newline
   core.info("Logging in to Codex with API key...");
-  const loginResult = spawnSync("sh", ["-c", 'printf "%s" "$OPENAI_API_KEY" | codex login --with-api-key'], {
+  const loginResult = await spawnAsync("sh", ["-c", 'printf "%s" "$OPENAI_API_KEY" | codex login --with-api-key'], {
     cwd,
-    encoding: "utf8",
     env,
-    stdio: ["ignore", "pipe", "pipe"],
+    sandbox: params.sandbox,
   });
-  if (loginResult.status !== 0) {
+  if (loginResult.exitCode !== 0) {
     core.warning(`Codex login returned non-zero: ${loginResult.stderr}`);
   } else {
     core.info("Codex login successful.");
   }
 
   // Step 3: Write prompt to a temp file (avoids shell escaping issues with long prompts)
-  const promptFile = path.join(os.tmpdir(), `codex-prompt-${Date.now()}.txt`);
-  fs.writeFileSync(promptFile, params.prompt, "utf8");
+  const promptFile = writePromptFile("codex-prompt", params.prompt, params.sandbox);
 
   // Step 4: Run codex exec with the prompt from file
   // Use cat to pipe prompt to codex via stdin to avoid argument length limits
   core.info("Running Codex...");
   core.info(`codex exec --full-auto --model ${params.model} < prompt.txt`);
 
-  const result = spawnSync("sh", ["-c", `cat "${promptFile}" | codex exec --full-auto --model "${params.model}"`], {
-    cwd,
-    encoding: "utf8",
-    env,
-    stdio: ["ignore", "pipe", "pipe"],
-    timeout: 600_000, // 10 minute timeout
-  });
+  const result = await spawnAsync(
+    "sh",
+    ["-c", `cat "${promptFile}" | codex exec --full-auto --model "${params.model}"`],
+    {
+      cwd,
+      env,
+      timeoutMs: params.timeoutMs ?? DEFAULT_AGENT_TIMEOUT_MS,
+      group: "Codex output",
+      sandbox: params.sandbox,
+    }
+  );
 
   // Clean up prompt file
-  try {
-    fs.unlinkSync(promptFile);
-  } catch {
-    // Ignore cleanup errors
-  }
+  removePromptFile(promptFile);
 
-  return {
-    stdout: result.stdout ?? "",
-    stderr: result.stderr ?? "",
-    exitCode: result.status ?? 1,
-  };
+  return result;
 }
 
 export const codexAgent: Agent = {
@@ -0,0 +1,76 @@
+import * as core from "@actions/core";
+
+import type { ExecResult } from "../types";
+import { DEFAULT_AGENT_TIMEOUT_MS } from "./types";
+import type { Agent, AgentParams } from "./types";
+import { scrubEnv } from "../secrets";
+import { removePromptFile, shellEscape, spawnAsync, writePromptFile } from "../utils";
+
+/**
+ * Substitutes `{prompt_file}`, `{model}` and `{cwd}` in a custom agent command template.
+ * Values are shell-escaped, so placeholders must not be quoted in the template.
+ */
+export function renderCustomAgentCommand(
+  template: string,
+  values: { promptFile: string; model: string; cwd: string }
+): string {
+  const replacements: Record<string, string> = {
+    prompt_file: values.promptFile,
+    model: values.model,
+    cwd: values.cwd,
+  };
+  return template.replace(/\{(prompt_file|model|cwd)\}/g, (_match, key: string) => shellEscape(replacements[key]));
+}
+
+export async function installCustomAgent(): Promise<void> {
+  core.info("Using custom agent command; nothing to install.");
+}
+
+export async function runCustomAgent(params: AgentParams): Promise<ExecResult> {
+  if (!params.command || params.command.trim() === "") {
+    return {
+      stdout: "",
+      stderr: "Error: custom-agent-command is required for custom agent",
+      exitCode: 1,
+    };
+  }
+
+  // Write prompt to a temp file to avoid shell escaping issues
+  const promptFile = writePromptFile("custom-agent-prompt", params.prompt, params.sandbox);
+
+  // Run from working directory if specified, otherwise repo root
+  const cwd = params.workingDirectory || params.repoRoot;
+
+  const cmd = renderCustomAgentCommand(params.command, { promptFile, model: params.model, cwd });
+
+  core.info("Running custom agent...");
+  core.info(params.command);
+
+  // Build environment with whichever API keys were provided
+  const env: NodeJS.ProcessEnv = { ...scrubEnv(process.env) };
+  if (params.openaiApiKey && params.openaiApiKey.trim() !== "") {
+    env.OPENAI_API_KEY = params.openaiApiKey;
+  }
+  if (params.anthropicApiKey && params.anthropicApiKey.trim() !== "") {
+    env.ANTHROPIC_API_KEY = params.anthropicApiKey;
+  }
+
+  const result = await spawnAsync("sh", ["-c", cmd], {
+    cwd,
+    env,
+    timeoutMs: params.timeoutMs ?? DEFAULT_AGENT_TIMEOUT_MS,
+    group: "Custom agent output",
+    sandbox: params.sandbox,
+  });
+
+  // Clean up prompt file
+  removePromptFile(promptFile);
+
+  return result;
+}
+
+export const customAgent: Agent = {
+  name: "custom",
+  install: installCustomAgent,
+  run: runCustomAgent,
+};
@@ -1,10 +1,16 @@
 export type { Agent, AgentParams, AgentType } from "./types";
+export { AGENT_TYPES, DEFAULT_AGENT_TIMEOUT_MS } from "./types";
 export { aiderAgent, installAider, runAider, DEFAULT_AIDER_MODEL } from "./aider";
 export { codexAgent, installCodex, runCodex, DEFAULT_CODEX_MODEL } from "./codex";
+export { claudeAgent, installClaude, runClaude, DEFAULT_CLAUDE_MODEL } from "./claude";
+export { customAgent, installCustomAgent, runCustomAgent, renderCustomAgentCommand } from "./custom";
 
+import { AGENT_TYPES } from "./types";
 import type { Agent, AgentType } from "./types";
 import { aiderAgent } from "./aider";
 import { codexAgent } from "./codex";
+import { claudeAgent } from "./claude";
+import { customAgent } from "./custom";
 
 export function getAgent(type: AgentType): Agent {
   switch (type) {
@@ -12,11 +18,44 @@ export function getAgent(type: AgentType): Agent {
       return codexAgent;
     case "aider":
       return aiderAgent;
+    case "claude":
+      return claudeAgent;
+    case "custom":
+      return customAgent;
     default:
       throw new Error(`Unknown agent type: ${type}`);
   }
 }
 
 export function isValidAgentType(value: string): value is AgentType {
-  return value === "codex" || value === "aider";
+  return (AGENT_TYPES as readonly string[]).includes(value);
+}
+
+export type AgentChainEntry = {
+  type: AgentType;
+  // Overrides the per-agent model input when set
+  model?: string;
+};
+
+/**
+ * Parses the `agent` input: an ordered, comma-separated fallback chain such as `aider,codex`.
+ * Each entry may pin its own model with `agent:model`, e.g. `aider:gpt-4o,claude:claude-opus-4-1`.
+ */
+export function parseAgentChain(input: string): AgentChainEntry[] {
+  const entries = input
+    .split(",")
+    .map((e) => e.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const sep = entry.indexOf(":");
+      const type = (sep === -1 ? entry : entry.slice(0, sep)).trim();
+      const model = sep === -1 ? "" : entry.slice(sep + 1).trim();
+      if (!isValidAgentType(type)) {
+        throw new Error(`Invalid agent type: ${type}. Must be one of: ${AGENT_TYPES.join(", ")}.`);
+      }
+      return model ? { type, model } : { type };
+    });
+
+  if (!entries.length) throw new Error("No agent configured.");
+  return entries;
 }
@@ -1,6 +1,10 @@
-import type { ExecResult } from "../types";
+import type { ExecResult, Sandbox } from "../types";
 
-export type AgentType = "codex" | "aider";
+export const AGENT_TYPES = ["codex", "aider", "claude", "custom"] as const;
+
+export type AgentType = (typeof AGENT_TYPES)[number];
+
+export const DEFAULT_AGENT_TIMEOUT_MS = 600_000;
 
 export interface AgentParams {
   prompt: string;
@@ -10,10 +14,16 @@ export interface AgentParams {
   anthropicApiKey?: string;
   model: string;
   testCommand?: string;
+  // Command template for the custom agent
+  command?: string;
+  // Per-run limit; defaults to DEFAULT_AGENT_TIMEOUT_MS
+  timeoutMs?: number;
+  // Runs the agent as the sandbox user
+  sandbox?: Sandbox;
 }
 
 export interface Agent {
   name: AgentType;
-  install(version?: string): void;
-  run(params: AgentParams): ExecResult;
+  install(version?: string): Promise<void>;
+  run(params: AgentParams): Promise<ExecResult>;
 }
@@ -0,0 +1,34 @@
+import type { AgentType } from "./agents";
+
+/**
+ * One of the independent fixes of a multi-candidate run, see `runCandidates`.
+ */
+export type CandidateSummary = {
+  // 1-based, in the order the candidates were started
+  index: number;
+  agentType: AgentType;
+  model: string;
+  passed: boolean;
+  // Why the candidate failed
+  reason?: string;
+  // Lines added plus lines removed, for candidates that passed
+  changedLines?: number;
+  // Reverted forbidden-path changes and test changes a label allowed, for candidates that passed
+  guardrailViolations?: number;
+  // The candidate's change, for candidates that passed
+  diff?: string;
+};
+
+/**
+ * Orders the candidates best first: passing the tests, then the fewest guardrail violations,
+ * then the smallest diff. Ties go to the candidate started first, so the ranking is deterministic.
+ */
+export function rankCandidates(candidates: CandidateSummary[]): CandidateSummary[] {
+  return [...candidates].sort(
+    (a, b) =>
+      Number(b.passed) - Number(a.passed) ||
+      (a.guardrailViolations ?? 0) - (b.guardrailViolations ?? 0) ||
+      (a.changedLines ?? 0) - (b.changedLines ?? 0) ||
+      a.index - b.index
+  );
+}
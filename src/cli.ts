@@ -0,0 +1,219 @@
+import * as core from "@actions/core";
+import * as os from "os";
+import * as path from "path";
+import * as fs from "fs";
+import { parseArgs } from "util";
+
+import { getAgent } from "./agents";
+import type { Agent, AgentType } from "./agents";
+import { createDryRunGitHubClient } from "./github";
+import { readConfig } from "./inputs";
+import { collectChanges, runPipeline } from "./pipeline";
+import { redactSecrets } from "./secrets";
+import { exec } from "./utils";
+
+const USAGE = `Usage: npm run dry-run -- --issue <bug.md> --repo <path> [options]
+
+Runs the autofix pipeline locally without GitHub: parses the issue body, runs the
+specific test, runs the agent and verifies the fix. Writes the diff, the prompts,
+the would-be comments and PR body and the run report to the output directory instead
+of pushing and opening a PR.
+The fix is left uncommitted in the working tree of the repository for inspection.
+
+Options:
+  --issue <file>                   Markdown file with the issue body (required)
+  --repo <path>                    Repository to fix; must have a clean working tree (required)
+  --title <text>                   Issue title (default: issue file name)
+  --issue-number <n>               Issue number used in the comments and the PR body (default: 1)
+  --label <name>                   Issue label, repeatable (e.g. the allow-test-changes label)
+  --out <dir>                      Output directory, outside the repository
+                                   (default: autofix-dry-run in the temp directory)
+  --agent <chain>                  Agent or fallback chain, e.g. aider,codex (default: aider)
+  --aider-model <model>            Model of Aider (default: gpt-4o)
+  --codex-model <model>            Model of Codex (default: gpt-5-codex)
+  --claude-model <model>           Model of Claude (default: claude-sonnet-4-5)
+  --working-directory <dir>        Subdirectory for the agent and test commands
+  --test-command-specific <cmd>    Fallback specific test command
+  --test-command-suite <cmd>       Fallback full test suite command
+  --test-report-format <format>    junit or tap: only new suite failures count as regressions
+  --test-report-path <file>        JUnit XML file written by the suite (default: parse stdout)
+  --retry-max <n>                  Maximum attempts per agent (default: 3)
+  --flaky-reruns <n>               Re-runs of a failing test command before it counts (default: 2)
+  --reproduction-policy <policy>   fail, warn or ask-agent-to-write-test (default: fail)
+  --max-cost-usd <usd>             Stop retrying once the run has cost this much
+  --max-tokens <n>                 Stop retrying once the run has used this many tokens
+  --agent-timeout-minutes <n>      Time limit for each agent attempt (default: 10)
+  --test-timeout-minutes <n>       Time limit for each run of a test command
+  --run-timeout-minutes <n>        Time limit for the whole run
+  --forbidden-paths <globs>        Paths the agent must not change, added to the defaults
+  --allowed-paths <globs>          Exceptions to the forbidden paths
+  --forbidden-path-action <action> revert or fail (default: revert)
+  --max-changed-files <n>          Reject a change that touches more files
+  --max-added-lines <n>            Reject a change that adds more lines
+  --max-removed-lines <n>          Reject a change that removes more lines
+  --allow-test-deletion            Accept a change that deletes test files
+  --allow-test-changes-label <l>   Label that allows a fix to weaken the tests
+                                   (default: autofix-allow-test-changes)
+  --isolation                      Run the agent and the tests as an unprivileged user with an
+                                   allowlisted network (needs passwordless sudo)
+  --network-allowlist <hosts>      Hosts the sandbox may reach, added to the defaults
+  --candidates <n>                 Generate this many fixes in parallel and keep the best (default: 1)
+  --custom-agent-command <cmd>     Command for the custom agent
+  --custom-agent-model <model>     Model substituted for {model} in the custom agent command
+  --install                        Install the agents (default: use the ones on PATH)
+  --description                    Generate the PR description with OpenAI
+  --description-model <model>      Model of the PR description (default: gpt-4o)
+  -h, --help                       Show this help
+
+API keys are read from OPENAI_API_KEY and ANTHROPIC_API_KEY.`;
+
+// Written by a run; those of an earlier run are removed first
+const OUTPUT_FILES: Record<string, string> = {
+  "prompt.md": "prompts sent to the agents",
+  "fix.diff": "diff of the fix",
+  "pr-body.md": "title and body of the would-be PR",
+  "comments.md": "would-be issue comments",
+  "report.json": "run report",
+};
+
+/**
+ * Wraps `getAgent` so that every prompt sent to an agent is appended to `file`,
+ * including those of the attempts that failed.
+ */
+function recordPrompts(file: string): (type: AgentType) => Agent {
+  let count = 0;
+  return (type) => {
+    const agent = getAgent(type);
+    return {
+      name: agent.name,
+      install: (version) => agent.install(version),
+      run: (params) => {
+        count++;
+        const heading = `${count > 1 ? "\n" : ""}## Prompt ${count} (${agent.name})\n\n`;
+        fs.appendFileSync(file, `${heading}${redactSecrets(params.prompt)}\n`, "utf8");
+        return agent.run(params);
+      },
+    };
+  };
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      issue: { type: "string" },
+      repo: { type: "string" },
+      title: { type: "string" },
+      "issue-number": { type: "string" },
+      label: { type: "string", multiple: true, default: [] },
+      out: { type: "string", default: path.join(os.tmpdir(), "autofix-dry-run") },
+      agent: { type: "string" },
+      "aider-model": { type: "string" },
+      "codex-model": { type: "string" },
+      "claude-model": { type: "string" },
+      "working-directory": { type: "string" },
+      "test-command-specific": { type: "string" },
+      "test-command-suite": { type: "string" },
+      "test-report-format": { type: "string" },
+      "test-report-path": { type: "string" },
+      "retry-max": { type: "string" },
+      "flaky-reruns": { type: "string" },
+      "reproduction-policy": { type: "string" },
+      "max-cost-usd": { type: "string" },
+      "max-tokens": { type: "string" },
+      "agent-timeout-minutes": { type: "string" },
+      "test-timeout-minutes": { type: "string" },
+      "run-timeout-minutes": { type: "string" },
+      "forbidden-paths": { type: "string" },
+      "allowed-paths": { type: "string" },
+      "forbidden-path-action": { type: "string" },
+      "max-changed-files": { type: "string" },
+      "max-added-lines": { type: "string" },
+      "max-removed-lines": { type: "string" },
+      "allow-test-deletion": { type: "boolean", default: false },
+      "allow-test-changes-label": { type: "string", default: "autofix-allow-test-changes" },
+      isolation: { type: "boolean", default: false },
+      "network-allowlist": { type: "string" },
+      candidates: { type: "string" },
+      "custom-agent-command": { type: "string" },
+      "custom-agent-model": { type: "string" },
+      install: { type: "boolean", default: false },
+      description: { type: "boolean", default: false },
+      "description-model": { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (!values.issue || !values.repo) {
+    throw new Error(`--issue and --repo are required.\n\n${USAGE}`);
+  }
+
+  const issueFile = path.resolve(values.issue);
+  const outDir = path.resolve(values.out);
+  const repoRoot = path.resolve(values.repo);
+  if (outDir === repoRoot || outDir.startsWith(`${repoRoot}${path.sep}`)) {
+    throw new Error(`--out must be outside ${repoRoot}: retries reset its working tree with \`git clean\`.`);
+  }
+  const issueNumber = Number(values["issue-number"]) || 1;
+  const issueBody = fs.readFileSync(issueFile, "utf8");
+  const issueTitle = values.title || path.basename(issueFile, path.extname(issueFile));
+
+  // Agents run relative to the repository, as in the action
+  process.chdir(repoRoot);
+  if ((await exec("git status --porcelain", { silent: true })).stdout.trim()) {
+    throw new Error(`${repoRoot} has uncommitted changes. Commit or stash them first; retries reset the working tree.`);
+  }
+  const currentBranch = (await exec("git rev-parse --abbrev-ref HEAD", { silent: true })).stdout.trim();
+  const branches = (await exec("git for-each-ref --format='%(refname:short)' refs/heads", { silent: true })).stdout
+    .split("\n")
+    .filter(Boolean);
+
+  fs.mkdirSync(outDir, { recursive: true });
+  for (const file of Object.keys(OUTPUT_FILES)) fs.rmSync(path.join(outDir, file), { force: true });
+
+  // The options are named after the action inputs; the API keys come from the environment
+  const config = readConfig((name) => {
+    if (name === "openai-api-key") return process.env.OPENAI_API_KEY || "";
+    if (name === "anthropic-api-key") return process.env.ANTHROPIC_API_KEY || "";
+    if (name === "add-description") return String(values.description);
+    if (name === "report-path") return path.join(outDir, "report.json");
+    const value = (values as Record<string, unknown>)[name];
+    return typeof value === "string" || typeof value === "boolean" ? String(value) : "";
+  });
+
+  const github = createDryRunGitHubClient({
+    repoRef: { owner: "dry-run", repo: path.basename(repoRoot) },
+    outDir,
+    issueNumber,
+    issue: { title: issueTitle, body: issueBody, labels: values.label },
+    defaultBranch: currentBranch,
+    branches,
+  });
+  // Started as if the issue had just been given the required label
+  const result = await runPipeline(
+    {
+      eventName: "issues",
+      payload: { action: "labeled", issue: { number: issueNumber, labels: [config.requiredLabel] } },
+    },
+    { ...config, installAgents: values.install, dryRun: true },
+    { github, exec, getAgent: recordPrompts(path.join(outDir, "prompt.md")) }
+  );
+
+  if (result.outcome === "pr-opened") {
+    const { diff } = await collectChanges(repoRoot, exec);
+    fs.writeFileSync(path.join(outDir, "fix.diff"), diff, "utf8");
+  }
+  core.info(`${result.message} Output written to ${outDir}:`);
+  for (const [file, content] of Object.entries(OUTPUT_FILES)) {
+    if (fs.existsSync(path.join(outDir, file))) core.info(`  ${file.padEnd(12)} ${content}`);
+  }
+  if (result.outcome === "pr-opened") core.info(`The fix is left in the working tree of ${repoRoot}.`);
+  else core.setFailed(result.message);
+}
+
+main().catch((err) => {
+  core.setFailed(err instanceof Error ? err.message : String(err));
+});
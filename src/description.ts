@@ -0,0 +1,154 @@
+import * as core from "@actions/core";
+import OpenAI from "openai";
+
+import type { CandidateSummary } from "./candidates";
+import { truncate } from "./lib";
+import { formatTestTampering } from "./guardrails";
+import type { TestChanges } from "./guardrails";
+import { formatFlakyTests } from "./results";
+import type { FlakyTest } from "./results";
+import { usageFromCompletion } from "./usage";
+import type { TokenUsage } from "./usage";
+
+export async function generatePRDescription(params: {
+  issueTitle: string;
+  issueBody: string;
+  changedFiles: { path: string; content: string }[];
+  diff: string;
+  openaiApiKey: string;
+  model: string;
+  onUsage?: (usage: TokenUsage) => void;
+}): Promise<string> {
+  const openai = new OpenAI({ apiKey: params.openaiApiKey });
+
+  const filesContent = params.changedFiles.map((f) => `=== FILE: ${f.path} ===\n${f.content}`).join("\n\n");
+
+  const prompt = `You are a senior software engineer writing a pull request description for a bug fix.
+
+BUG REPORT:
+Title: ${params.issueTitle}
+
+${params.issueBody}
+
+CHANGED FILES CONTENT:
+${truncate(filesContent, 50_000)}
+
+DIFF:
+${truncate(params.diff, 30_000)}
+
+Write a clear and concise PR description with the following sections:
+1. **Bug Description**: What was the bug? What was the expected vs actual behavior?
+2. **Root Cause**: What was causing this bug in the code?
+3. **Solution**: What changes were made and why?
+4. **How It Fixes the Bug**: Explain how these specific changes resolve the issue.
+
+Keep each section brief but informative. Use markdown formatting.`;
+
+  core.info("Generating PR description using OpenAI...");
+
+  const response = await openai.chat.completions.create({
+    model: params.model,
+    messages: [{ role: "user", content: prompt }],
+    max_tokens: 2000,
+    temperature: 0.3,
+  });
+
+  const usage = usageFromCompletion(params.model, response.usage);
+  if (usage) params.onUsage?.(usage);
+
+  const description = response.choices[0]?.message?.content?.trim() || "";
+  if (!description) {
+    core.warning("OpenAI returned empty description, using default.");
+    return "";
+  }
+
+  core.info("PR description generated successfully.");
+  return description;
+}
+
+/**
+ * Formats the flaky failures seen while verifying the fix, or returns "" when there were none.
+ */
+export function formatFlakyNote(flaky: FlakyTest[] | undefined): string {
+  if (!flaky?.length) return "";
+  return (
+    "⚠️ These tests failed during verification, then passed on a re-run. They look flaky, " +
+    "so they did not count against the fix:\n\n" +
+    formatFlakyTests(flaky)
+  );
+}
+
+/**
+ * Lists the test files the fix changes, and how it weakens them when a label allowed that.
+ * Returns "" when the fix changes no test files.
+ */
+export function formatTestChangesNote(testChanges: TestChanges | undefined): string {
+  if (!testChanges?.files.length) return "";
+  const note = `🧪 This fix changes test files: ${testChanges.files.map((f) => `\`${f}\``).join(", ")}.`;
+  if (!testChanges.tampering.length) return note;
+  return (
+    `${note}\n\n⚠️ It weakens the tests, which a label on the issue allowed. Review these changes carefully:\n\n` +
+    formatTestTampering(testChanges.tampering)
+  );
+}
+
+// Shared by the diffs of all alternative candidates, so the PR body stays under GitHub's 65,536 characters
+const MAX_ALTERNATIVE_DIFFS_LENGTH = 20_000;
+
+function tableCell(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/\|/g, "\\|");
+}
+
+/**
+ * Summarizes the candidates of a multi-candidate run, ranked best first, with the diffs
+ * of the candidates that passed but were not picked, cut to share one size limit. Returns "" for a single candidate.
+ */
+export function formatCandidatesNote(candidates: CandidateSummary[] | undefined): string {
+  if (!candidates || candidates.length < 2) return "";
+  const rows = candidates.map((candidate, i) => {
+    const result =
+      i === 0 ? "✅ picked" : candidate.passed ? "passed" : `❌ ${tableCell(candidate.reason ?? "failed")}`;
+    const agent = `${candidate.agentType} (${candidate.model})`;
+    const lines = candidate.passed ? String(candidate.changedLines ?? 0) : "-";
+    const violations = candidate.passed ? String(candidate.guardrailViolations ?? 0) : "-";
+    return `| ${candidate.index} | ${agent} | ${result} | ${lines} | ${violations} |`;
+  });
+  const passed = candidates.slice(1).filter((candidate) => candidate.passed && candidate.diff);
+  const diffLength = Math.floor(MAX_ALTERNATIVE_DIFFS_LENGTH / Math.max(1, passed.length));
+  const alternatives = passed.map(
+    (candidate) =>
+      `<details>\n<summary>Candidate ${candidate.index} (${candidate.agentType}): ${candidate.changedLines ?? 0} changed lines</summary>\n\n` +
+      `\`\`\`diff\n${truncate(candidate.diff ?? "", diffLength).trimEnd()}\n\`\`\`\n</details>`
+  );
+  return [
+    `🏁 This fix was picked from ${candidates.length} candidates: passing tests first, ` +
+      "then the fewest guardrail violations, then the smallest diff.",
+    "| Candidate | Agent | Result | Changed lines | Guardrail violations |\n| --- | --- | --- | --- | --- |\n" +
+      rows.join("\n"),
+    ...alternatives,
+  ].join("\n\n");
+}
+
+/**
+ * Builds the PR body, using the generated description when there is one.
+ */
+export function buildPRBody(params: {
+  issueRef: string;
+  agentType: string;
+  description?: string;
+  flaky?: FlakyTest[];
+  testChanges?: TestChanges;
+  // Ranked best first, the first one being this fix
+  candidates?: CandidateSummary[];
+}): string {
+  const notes = [
+    formatTestChangesNote(params.testChanges),
+    formatFlakyNote(params.flaky),
+    formatCandidatesNote(params.candidates),
+  ].filter(Boolean);
+  const footer = notes.map((note) => `${note}\n\n`).join("") + `Closes ${params.issueRef}.`;
+  if (params.description) {
+    return `${params.description}\n\n---\n\n${footer}`;
+  }
+  return `Automated fix for issue ${params.issueRef} using ${params.agentType}.\n\n${footer}`;
+}
@@ -0,0 +1,355 @@
+import * as path from "path";
+
+import { truncate } from "./lib";
+import { decodeXmlEntities, parseXmlAttributes } from "./results";
+
+export type TestFailure = {
+  name: string;
+  // Assertion or error message
+  message: string;
+  // Stack frames that point into repository files, as `path:line[:column]`
+  frames: string[];
+};
+
+export type FailureSummary = {
+  runner: "jest" | "vitest" | "node:test" | "pytest" | "go" | "junit" | "playwright";
+  failures: TestFailure[];
+};
+
+const MAX_MESSAGE_LINES = 12;
+const MAX_FRAMES = 5;
+const MAX_FAILURES = 20;
+
+// Frame patterns, each capturing the file and the line (and optionally the column)
+const FRAME_PATTERNS = [
+  // JavaScript: `at fn (file:10:5)`, `at file:10:5`, `fn (file:///file:10:5)`
+  /\(((?:file:\/\/)?[^()\s]+):(\d+):(\d+)\)\s*$/,
+  /\bat ((?:file:\/\/)?[^()\s]+):(\d+):(\d+)\s*$/,
+  // Vitest: `❯ file:10:5`
+  /❯ (?:\S+ )?([^\s()]+):(\d+):(\d+)/,
+  // node:test: `location: '/path/file:10:5'`
+  /^\s*location: '(.+?):(\d+):(\d+)'/,
+  // Python traceback: `File "file.py", line 10`
+  /^\s*File "(.+?)", line (\d+)/,
+  // pytest and Go: `file.py:10: AssertionError`, `    file_test.go:10: message`
+  /^\s*([^\s:]+\.(?:py|go)):(\d+):/,
+];
+
+function extractFrame(line: string, repoRoot?: string): string | undefined {
+  for (const re of FRAME_PATTERNS) {
+    const m = line.match(re);
+    if (!m) continue;
+
+    let file = m[1].replace(/^file:\/\//, "");
+    if (file.startsWith("node:") || file.startsWith("internal/") || file.includes("node_modules")) return undefined;
+    if (path.isAbsolute(file)) {
+      // Frames outside the repository (runtimes, global installs) do not help the agent
+      if (!repoRoot) return undefined;
+      const relative = path.relative(repoRoot, file);
+      if (relative.startsWith("..") || path.isAbsolute(relative)) return undefined;
+      file = relative;
+    }
+    return [file, m[2], m[3]].filter(Boolean).join(":");
+  }
+  return undefined;
+}
+
+function extractFrames(lines: string[], repoRoot?: string): string[] {
+  const frames: string[] = [];
+  for (const line of lines) {
+    const frame = extractFrame(line, repoRoot);
+    if (frame && !frames.includes(frame)) frames.push(frame);
+    if (frames.length >= MAX_FRAMES) break;
+  }
+  return frames;
+}
+
+// Code excerpts such as `> 11 |   expect(x).toBe(2);` or `  9|   it("divides", () => {`
+const CODE_FRAME_RE = /^\s*>?\s*\d+\s*\|/;
+
+/**
+ * Takes the leading lines of a failure block as its message, up to the first stack frame or code excerpt.
+ */
+function extractMessage(lines: string[]): string {
+  const message: string[] = [];
+  for (const line of lines) {
+    if (CODE_FRAME_RE.test(line) || /^\s*(at |❯ )/.test(line)) break;
+    if (!line.trim() && !message.length) continue;
+    message.push(line.trim());
+    if (message.length >= MAX_MESSAGE_LINES) break;
+  }
+  return message
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Splits output into blocks that start at lines matching `headerRe` (capturing the test name)
+ * and end at the next header or a line matching `endRe`.
+ */
+function parseBlocks(lines: string[], headerRe: RegExp, endRe: RegExp, repoRoot?: string): TestFailure[] {
+  const failures: TestFailure[] = [];
+  let current: { name: string; body: string[] } | undefined;
+
+  const flush = () => {
+    if (current && !failures.some((f) => f.name === current!.name)) {
+      failures.push({
+        name: current.name,
+        message: extractMessage(current.body),
+        frames: extractFrames(current.body, repoRoot),
+      });
+    }
+    current = undefined;
+  };
+
+  for (const line of lines) {
+    const header = line.match(headerRe);
+    if (header) {
+      flush();
+      current = { name: header[1].trim(), body: [] };
+    } else if (current && endRe.test(line)) {
+      flush();
+    } else if (current) {
+      current.body.push(line);
+    }
+  }
+  flush();
+  return failures;
+}
+
+function parseJest(lines: string[], repoRoot?: string): TestFailure[] {
+  return parseBlocks(lines, /^\s*● (.+)$/, /^\s*(Test Suites:|Tests:|(FAIL|PASS) )/, repoRoot);
+}
+
+function parseVitest(lines: string[], repoRoot?: string): TestFailure[] {
+  return parseBlocks(lines, /^\s*FAIL\s+(\S+ > .+)$/, /^\s*(⎯{3,}|Test Files\s)/, repoRoot);
+}
+
+function parsePlaywright(lines: string[], repoRoot?: string): TestFailure[] {
+  return parseBlocks(lines, /^\s*\d+\) (\[.+?\] › .+?)\s*─*\s*$/, /^\s*\d+ (failed|flaky|passed|skipped)\b/, repoRoot);
+}
+
+/**
+ * Parses node:test output: TAP `not ok` points with their YAML diagnostics, or spec reporter `✖` blocks.
+ */
+function parseNodeTest(lines: string[], repoRoot?: string): TestFailure[] {
+  const failures: TestFailure[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const tap = lines[i].match(/^(\s*)not ok \d+ - (.+?)(?:\s+#.*)?$/);
+    const spec = lines[i].match(/^(\s*)✖ (.+?)(?: \([\d.]+m?s\))?$/);
+    const header = tap ?? spec;
+    if (!header || header[2] === "failing tests:") continue;
+
+    // The diagnostics are the following lines that are indented deeper than the header
+    const indent = header[1].length;
+    const body: string[] = [];
+    for (let j = i + 1; j < lines.length; j++) {
+      const line = lines[j];
+      if (line.trim() && line.length - line.trimStart().length <= indent) break;
+      body.push(line);
+    }
+    if (!body.some((l) => l.trim())) continue;
+    // Parents of failing subtests only repeat their children's failures
+    if (body.some((l) => /failureType: 'subtestsFailed'/.test(l))) continue;
+
+    let messageLines = body;
+    if (tap) {
+      // YAML: `error: |-` followed by an indented block, or `error: 'message'` on one line
+      const errorIdx = body.findIndex((l) => /^\s*error:/.test(l));
+      if (errorIdx >= 0) {
+        const inline = body[errorIdx].replace(/^\s*error:\s*/, "").replace(/^\|-?$/, "");
+        const errorIndent = body[errorIdx].length - body[errorIdx].trimStart().length;
+        const block: string[] = inline ? [inline.replace(/^'(.*)'$/, "$1")] : [];
+        for (let j = errorIdx + 1; j < body.length; j++) {
+          const line = body[j];
+          if (line.trim() && line.length - line.trimStart().length <= errorIndent) break;
+          block.push(line);
+        }
+        messageLines = block;
+      }
+    }
+
+    const name = header[2].trim();
+    if (!failures.some((f) => f.name === name)) {
+      failures.push({ name, message: extractMessage(messageLines), frames: extractFrames(body, repoRoot) });
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Parses the FAILURES section of pytest output, falling back to the `FAILED` lines of the short summary.
+ */
+function parsePytest(lines: string[], repoRoot?: string): TestFailure[] {
+  const failures: TestFailure[] = [];
+  const start = lines.findIndex((l) => /^=+ FAILURES =+$/.test(l.trim()));
+
+  if (start >= 0) {
+    let current: { name: string; body: string[] } | undefined;
+    const flush = () => {
+      if (!current) return;
+      const errors = current.body.filter((l) => /^E\s/.test(l)).map((l) => l.replace(/^E\s+/, ""));
+      failures.push({
+        name: current.name,
+        message: errors.slice(0, MAX_MESSAGE_LINES).join("\n") || extractMessage(current.body),
+        frames: extractFrames(current.body, repoRoot),
+      });
+      current = undefined;
+    };
+
+    for (const line of lines.slice(start + 1)) {
+      if (/^={3,}/.test(line.trim())) break;
+      const header = line.trim().match(/^_{3,} (.+?) _{3,}$/);
+      if (header) {
+        flush();
+        current = { name: header[1], body: [] };
+      } else {
+        current?.body.push(line);
+      }
+    }
+    flush();
+  }
+
+  if (!failures.length) {
+    for (const line of lines) {
+      const m = line.match(/^FAILED (\S+::\S+)(?: - (.*))?$/);
+      if (m) failures.push({ name: m[1], message: m[2] ?? "", frames: [] });
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Parses `--- FAIL: TestName` entries of `go test`, with the log lines printed for each test
+ * (after the FAIL line, or between `=== RUN` and `--- FAIL` in verbose mode).
+ */
+function parseGoTest(lines: string[], repoRoot?: string): TestFailure[] {
+  const logs = new Map<string, string[]>();
+  const failed: string[] = [];
+  let running: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const run = lines[i].match(/^=== (?:RUN|CONT|PAUSE)\s+(\S+)/);
+    if (run) {
+      running = run[1];
+      continue;
+    }
+
+    const fail = lines[i].match(/^(\s*)--- FAIL: (\S+)/);
+    if (fail) {
+      const name = fail[2];
+      failed.push(name);
+      const indent = fail[1].length;
+      for (let j = i + 1; j < lines.length; j++) {
+        const line = lines[j];
+        if (line.length - line.trimStart().length <= indent || /^\s*--- /.test(line)) break;
+        logs.set(name, [...(logs.get(name) ?? []), line]);
+      }
+      running = undefined;
+      continue;
+    }
+
+    if (/^\s*--- (PASS|SKIP):/.test(lines[i])) {
+      running = undefined;
+    } else if (running && /^\s+\S/.test(lines[i])) {
+      logs.set(running, [...(logs.get(running) ?? []), lines[i]]);
+    }
+  }
+
+  return failed.map((name) => {
+    const body = logs.get(name) ?? [];
+    return {
+      name,
+      message: body
+        .map((l) => l.trim().replace(/^[^\s:]+\.go:\d+:\s*/, ""))
+        .filter(Boolean)
+        .slice(0, MAX_MESSAGE_LINES)
+        .join("\n"),
+      frames: extractFrames(body, repoRoot),
+    };
+  });
+}
+
+function parseJUnitFailures(output: string, repoRoot?: string): TestFailure[] {
+  const failures: TestFailure[] = [];
+  // Self-closing test cases have no failure
+  const testcaseRe = /<testcase\b((?:[^>/]|\/(?!>))*)>([\s\S]*?)<\/testcase>/g;
+
+  for (const m of output.matchAll(testcaseRe)) {
+    const failure = m[2].match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+    if (!failure) continue;
+
+    const attrs = parseXmlAttributes(m[1]);
+    const failureAttrs = parseXmlAttributes(failure[2]);
+    const body = decodeXmlEntities((failure[3] ?? "").replace(/^<!\[CDATA\[|\]\]>$/g, "")).split(/\r?\n/);
+    const message = [failureAttrs.message, extractMessage(body)].filter(Boolean);
+    failures.push({
+      name: attrs.classname ? `${attrs.classname}.${attrs.name}` : (attrs.name ?? ""),
+      // The message attribute is often the first line of the body as well
+      message: [...new Set(message)].join("\n"),
+      frames: extractFrames(body, repoRoot),
+    });
+  }
+
+  return failures;
+}
+
+/**
+ * Extracts the failing tests, their assertion messages and the stack frames pointing into the repository
+ * from the output of common test runners. Returns undefined when no runner's format is recognized.
+ */
+export function summarizeTestFailures(output: string, repoRoot?: string): FailureSummary | undefined {
+  const lines = output.split(/\r?\n/);
+  const parsers: [FailureSummary["runner"], () => TestFailure[]][] = [
+    ["playwright", () => parsePlaywright(lines, repoRoot)],
+    ["jest", () => parseJest(lines, repoRoot)],
+    ["vitest", () => parseVitest(lines, repoRoot)],
+    ["pytest", () => parsePytest(lines, repoRoot)],
+    ["go", () => parseGoTest(lines, repoRoot)],
+    ["junit", () => parseJUnitFailures(output, repoRoot)],
+    ["node:test", () => parseNodeTest(lines, repoRoot)],
+  ];
+
+  for (const [runner, parse] of parsers) {
+    const failures = parse();
+    if (failures.length) return { runner, failures: failures.slice(0, MAX_FAILURES) };
+  }
+  return undefined;
+}
+
+export function formatFailureSummary(summary: FailureSummary): string {
+  const entries = summary.failures.map((f, i) => {
+    const details = [f.message, ...f.frames.map((frame) => `at ${frame}`)]
+      .filter(Boolean)
+      .join("\n")
+      .replace(/^/gm, "   ");
+    return `${i + 1}. ${f.name}` + (details.trim() ? `\n${details}` : "");
+  });
+  return `FAILING TESTS (${summary.failures.length}, parsed from ${summary.runner} output):\n\n${entries.join("\n\n")}`;
+}
+
+/**
+ * Condenses test output for the agent prompt: the structured failure summary followed by the end
+ * of the log, or the truncated log when no runner's format is recognized.
+ */
+export function condenseTestOutput(params: {
+  output: string;
+  repoRoot?: string;
+  // Content of a JUnit XML report written by the test command
+  report?: string;
+  maxChars?: number;
+}): string {
+  const maxChars = params.maxChars ?? 10_000;
+  const summary = summarizeTestFailures(
+    params.report ? `${params.output}\n${params.report}` : params.output,
+    params.repoRoot
+  );
+  if (!summary) return truncate(params.output, maxChars);
+
+  const tail = params.output.length > 2000 ? `...${params.output.slice(-2000)}` : params.output;
+  return truncate(`${formatFailureSummary(summary)}\n\nEND OF THE TEST OUTPUT:\n${tail}`, maxChars);
+}
@@ -0,0 +1,244 @@
+import * as github from "@actions/github";
+import * as fs from "fs";
+import * as path from "path";
+
+import type { ReviewComment } from "./lib";
+
+export type Octokit = ReturnType<typeof github.getOctokit>;
+
+export type IssueData = {
+  title: string;
+  body: string;
+  labels?: string[];
+};
+
+export type PullRequestData = {
+  number: number;
+  headRef: string;
+  baseRef: string;
+  url: string;
+};
+
+/**
+ * The GitHub operations used by the pipeline. Implemented on top of Octokit by `createGitHubClient`,
+ * on local files by `createDryRunGitHubClient`, and by an in-memory fake in the tests.
+ */
+export interface GitHubClient {
+  readonly owner: string;
+  readonly repo: string;
+  getIssue(issueNumber: number, repoRef?: { owner: string; repo: string }): Promise<IssueData>;
+  getDefaultBranch(): Promise<string>;
+  branchExists(branch: string): Promise<boolean>;
+  getCollaboratorPermission(username: string): Promise<string>;
+  addCommentReaction(commentId: number, content: "eyes"): Promise<void>;
+  getPullRequest(prNumber: number): Promise<PullRequestData>;
+  // Open PRs from branches of this repository whose name starts with the prefix
+  listOpenPullRequests(headPrefix: string): Promise<PullRequestData[]>;
+  listReviewComments(prNumber: number, reviewId: number): Promise<ReviewComment[]>;
+  // Returns the id of the new comment
+  createComment(issueNumber: number, body: string): Promise<number>;
+  updateComment(commentId: number, body: string): Promise<void>;
+  addLabels(issueNumber: number, labels: string[]): Promise<void>;
+  removeLabel(issueNumber: number, label: string): Promise<void>;
+  createPullRequest(params: { title: string; head: string; base: string; body: string }): Promise<PullRequestData>;
+}
+
+export function createGitHubClient(octokit: Octokit, repoRef: { owner: string; repo: string }): GitHubClient {
+  const { owner, repo } = repoRef;
+
+  return {
+    owner,
+    repo,
+
+    async getIssue(issueNumber, issueRepo) {
+      const res = await octokit.rest.issues.get({ ...(issueRepo ?? repoRef), issue_number: issueNumber });
+      const labels = res.data.labels.map((l) => (typeof l === "string" ? l : l.name)).filter((n): n is string => !!n);
+      return { title: res.data.title ?? "", body: res.data.body ?? "", labels };
+    },
+
+    async getDefaultBranch() {
+      const res = await octokit.rest.repos.get({ owner, repo });
+      return res.data.default_branch;
+    },
+
+    async branchExists(branch) {
+      // `git.getRef` expects refs like `heads/<branch>`
+      try {
+        await octokit.rest.git.getRef({ owner, repo, ref: `heads/${branch}` });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async getCollaboratorPermission(username) {
+      const res = await octokit.rest.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+      return res.data.permission;
+    },
+
+    async addCommentReaction(commentId, content) {
+      await octokit.rest.reactions.createForIssueComment({ owner, repo, comment_id: commentId, content });
+    },
+
+    async getPullRequest(prNumber) {
+      const res = await octokit.rest.pulls.get({ owner, repo, pull_number: prNumber });
+      return {
+        number: res.data.number,
+        headRef: res.data.head.ref,
+        baseRef: res.data.base.ref,
+        url: res.data.html_url,
+      };
+    },
+
+    async listOpenPullRequests(headPrefix) {
+      const pulls = await octokit.paginate(octokit.rest.pulls.list, { owner, repo, state: "open", per_page: 100 });
+      return pulls
+        .filter((p) => p.head.ref.startsWith(headPrefix) && p.head.repo?.full_name === `${owner}/${repo}`)
+        .map((p) => ({ number: p.number, headRef: p.head.ref, baseRef: p.base.ref, url: p.html_url }));
+    },
+
+    async listReviewComments(prNumber, reviewId) {
+      const comments = await octokit.paginate(octokit.rest.pulls.listCommentsForReview, {
+        owner,
+        repo,
+        pull_number: prNumber,
+        review_id: reviewId,
+        per_page: 100,
+      });
+      return comments.map((c) => ({
+        path: c.path,
+        line: c.line ?? c.original_line,
+        diffHunk: c.diff_hunk,
+        body: c.body,
+      }));
+    },
+
+    async createComment(issueNumber, body) {
+      const res = await octokit.rest.issues.createComment({ owner, repo, issue_number: issueNumber, body });
+      return res.data.id;
+    },
+
+    async updateComment(commentId, body) {
+      await octokit.rest.issues.updateComment({ owner, repo, comment_id: commentId, body });
+    },
+
+    async addLabels(issueNumber, labels) {
+      await octokit.rest.issues.addLabels({ owner, repo, issue_number: issueNumber, labels });
+    },
+
+    async removeLabel(issueNumber, label) {
+      await octokit.rest.issues.removeLabel({ owner, repo, issue_number: issueNumber, name: label });
+    },
+
+    async createPullRequest(params) {
+      const res = await octokit.rest.pulls.create({ owner, repo, ...params });
+      return {
+        number: res.data.number,
+        headRef: res.data.head.ref,
+        baseRef: res.data.base.ref,
+        url: res.data.html_url,
+      };
+    },
+  };
+}
+
+/**
+ * Client of the local dry run: serves one issue given on the command line and writes the comments
+ * (`comments.md`, each as last edited) and the PR (`pr-body.md`) to `outDir` instead of posting them.
+ */
+export function createDryRunGitHubClient(params: {
+  repoRef: { owner: string; repo: string };
+  outDir: string;
+  issueNumber: number;
+  issue: IssueData;
+  defaultBranch: string;
+  // Local branches
+  branches: string[];
+}): GitHubClient {
+  const { repoRef, outDir } = params;
+  const comments = new Map<number, string>();
+
+  function writeComments(): void {
+    fs.writeFileSync(path.join(outDir, "comments.md"), [...comments.values()].join("\n\n---\n\n"), "utf8");
+  }
+
+  return {
+    ...repoRef,
+
+    async getIssue(issueNumber, issueRepo) {
+      if (issueRepo || issueNumber !== params.issueNumber) {
+        throw new Error(`Issue #${issueNumber} is not fetched in dry-run mode.`);
+      }
+      return params.issue;
+    },
+
+    async getDefaultBranch() {
+      return params.defaultBranch;
+    },
+
+    async branchExists(branch) {
+      return params.branches.includes(branch);
+    },
+
+    async getCollaboratorPermission() {
+      return "admin";
+    },
+
+    async addCommentReaction() {},
+
+    async getPullRequest(prNumber) {
+      throw new Error(`PR #${prNumber} is not fetched in dry-run mode.`);
+    },
+
+    async listOpenPullRequests() {
+      return [];
+    },
+
+    async listReviewComments() {
+      return [];
+    },
+
+    async createComment(_issueNumber, body) {
+      const id = comments.size + 1;
+      comments.set(id, body);
+      writeComments();
+      return id;
+    },
+
+    async updateComment(commentId, body) {
+      comments.set(commentId, body);
+      writeComments();
+    },
+
+    async addLabels() {},
+
+    async removeLabel() {},
+
+    async createPullRequest({ title, head, base, body }) {
+      const file = path.join(outDir, "pr-body.md");
+      fs.writeFileSync(file, `# ${title}\n\n${body}\n`, "utf8");
+      return { number: 0, headRef: head, baseRef: base, url: file };
+    },
+  };
+}
+
+const ISSUE_COMMENT_CHUNK_SIZE = 60_000;
+
+export async function postCommentWithChunks(params: {
+  github: GitHubClient;
+  issueNumber: number;
+  body: string;
+}): Promise<void> {
+  const { github: client, issueNumber, body } = params;
+  if (body.length <= ISSUE_COMMENT_CHUNK_SIZE) {
+    await client.createComment(issueNumber, body);
+    return;
+  }
+
+  const totalChunks = Math.ceil(body.length / ISSUE_COMMENT_CHUNK_SIZE);
+  for (let i = 0; i < totalChunks; i++) {
+    const chunk = body.slice(i * ISSUE_COMMENT_CHUNK_SIZE, (i + 1) * ISSUE_COMMENT_CHUNK_SIZE);
+    const prefix = `Log chunk ${i + 1}/${totalChunks}\n\n`;
+    await client.createComment(issueNumber, `${prefix}${chunk}`);
+  }
+}
@@ -0,0 +1,356 @@
+// Paths agents must not change unless allowed: lockfiles, CI workflows, build output and secrets
+export const DEFAULT_FORBIDDEN_PATHS = [
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "pnpm-lock.yaml",
+  "yarn.lock",
+  "bun.lockb",
+  "Cargo.lock",
+  "Gemfile.lock",
+  "poetry.lock",
+  "uv.lock",
+  "go.sum",
+  ".github/workflows/**",
+  "dist/**",
+  ".env",
+  ".env.*",
+  "*.pem",
+  "*.key",
+  "id_rsa*",
+];
+
+export const FORBIDDEN_PATH_ACTIONS = ["revert", "fail"] as const;
+
+export type ForbiddenPathAction = (typeof FORBIDDEN_PATH_ACTIONS)[number];
+
+export type PathRules = {
+  deny: string[];
+  // Exceptions to `deny`
+  allow: string[];
+  // What happens to an attempt that changed a forbidden path
+  action: ForbiddenPathAction;
+};
+
+/**
+ * A changed path from `git status --porcelain -z`; `origPath` is the source of a rename or copy.
+ */
+export type PathChange = {
+  status: string;
+  path: string;
+  origPath?: string;
+};
+
+export function parseForbiddenPathAction(input: string): ForbiddenPathAction {
+  const value = input.trim().toLowerCase();
+  if (!value) return "revert";
+  if (!(FORBIDDEN_PATH_ACTIONS as readonly string[]).includes(value)) {
+    throw new Error(
+      `Invalid forbidden-path-action '${input.trim()}'. Must be one of: ${FORBIDDEN_PATH_ACTIONS.join(", ")}.`
+    );
+  }
+  return value as ForbiddenPathAction;
+}
+
+/**
+ * Splits a list input on newlines and commas; `#` starts a comment line.
+ */
+export function parseGlobList(input: string): string[] {
+  return input
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry && !entry.startsWith("#"));
+}
+
+/**
+ * Converts a gitignore-style glob into a regular expression for repository-relative paths.
+ * `*` and `?` stay within a path segment, `**` spans segments, and `{a,b}` matches either.
+ * A glob without a slash matches a file name at any depth; a trailing slash matches everything below a directory.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim().replace(/^\.\//, "");
+  const anchored = pattern.replace(/\/$/, "").includes("/");
+  if (pattern.endsWith("/")) pattern += "**";
+  pattern = anchored ? pattern.replace(/^\//, "") : `**/${pattern}`;
+
+  let re = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*" && pattern[i + 1] === "*") {
+      if (pattern[i + 2] === "/") {
+        // "**/" matches zero or more directories
+        re += "(?:.*/)?";
+        i += 2;
+      } else {
+        re += ".*";
+        i += 1;
+      }
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "{") {
+      const end = pattern.indexOf("}", i);
+      if (end === -1) {
+        re += "\\{";
+      } else {
+        const options = pattern.slice(i + 1, end).split(",");
+        re += `(?:${options.map((o) => o.replace(/[.+^$()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*")).join("|")})`;
+        i = end;
+      }
+    } else {
+      re += c.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+export function matchesAnyGlob(filePath: string, globs: string[]): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(filePath));
+}
+
+/**
+ * Parses `git status --porcelain -z` output. Renames and copies carry their source path,
+ * which follows the entry as a separate NUL-terminated field.
+ */
+export function parsePorcelainStatus(output: string): PathChange[] {
+  const fields = output.split("\0");
+  const changes: PathChange[] = [];
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    if (field.length < 4) continue;
+    const status = field.slice(0, 2);
+    const change: PathChange = { status, path: field.slice(3) };
+    if (status.includes("R") || status.includes("C")) change.origPath = fields[++i];
+    changes.push(change);
+  }
+  return changes;
+}
+
+/**
+ * Changes that touch a denied path (either side of a rename) that is not explicitly allowed.
+ */
+export function findForbiddenChanges(changes: PathChange[], rules: Pick<PathRules, "deny" | "allow">): PathChange[] {
+  const forbidden = (p: string | undefined) =>
+    p !== undefined && matchesAnyGlob(p, rules.deny) && !matchesAnyGlob(p, rules.allow);
+  return changes.filter((change) => forbidden(change.path) || forbidden(change.origPath));
+}
+
+/**
+ * Explains the violations to the agent in the next prompt, and to maintainers in comments.
+ */
+export function formatForbiddenChanges(violations: PathChange[], action: ForbiddenPathAction): string {
+  const paths = violations.map((v) => `- ${v.origPath ? `${v.origPath} -> ${v.path}` : v.path}`).join("\n");
+  return (
+    `These changes touch paths the fix must not modify:\n${paths}\n` +
+    (action === "revert"
+      ? "They were reverted. Leave these files unchanged."
+      : "The attempt was rejected because of them. Leave these files unchanged.")
+  );
+}
+
+// Test files by the naming conventions of common runners
+export const TEST_FILE_GLOBS = [
+  "test/",
+  "tests/",
+  "__tests__/",
+  "spec/",
+  "*.test.*",
+  "*.spec.*",
+  "test_*.py",
+  "*_test.py",
+  "*_test.go",
+  "*_spec.rb",
+  "*Test.java",
+  "*Tests.cs",
+];
+
+export type DiffLimits = {
+  maxChangedFiles?: number;
+  maxAddedLines?: number;
+  maxRemovedLines?: number;
+  // Deleting a test file exceeds the limits unless allowed
+  allowTestDeletion: boolean;
+};
+
+/**
+ * A changed file from `git diff --numstat`; binary files count zero lines.
+ */
+export type FileDiffStat = {
+  path: string;
+  added: number;
+  removed: number;
+  deleted: boolean;
+};
+
+/**
+ * Parses `git diff --numstat --no-renames -z` output.
+ */
+export function parseNumstat(output: string): Omit<FileDiffStat, "deleted">[] {
+  return output
+    .split("\0")
+    .filter(Boolean)
+    .map((entry) => {
+      const [added, removed, ...rest] = entry.split("\t");
+      return { path: rest.join("\t"), added: Number(added) || 0, removed: Number(removed) || 0 };
+    });
+}
+
+/**
+ * Returns one message per limit the diff exceeds; empty when it fits.
+ */
+export function checkDiffLimits(files: FileDiffStat[], limits: DiffLimits): string[] {
+  const exceeded: string[] = [];
+  const added = files.reduce((sum, f) => sum + f.added, 0);
+  const removed = files.reduce((sum, f) => sum + f.removed, 0);
+  if (limits.maxChangedFiles !== undefined && files.length > limits.maxChangedFiles) {
+    exceeded.push(`${files.length} files changed, more than max-changed-files (${limits.maxChangedFiles})`);
+  }
+  if (limits.maxAddedLines !== undefined && added > limits.maxAddedLines) {
+    exceeded.push(`${added} lines added, more than max-added-lines (${limits.maxAddedLines})`);
+  }
+  if (limits.maxRemovedLines !== undefined && removed > limits.maxRemovedLines) {
+    exceeded.push(`${removed} lines removed, more than max-removed-lines (${limits.maxRemovedLines})`);
+  }
+  const deletedTests = files.filter((f) => f.deleted && matchesAnyGlob(f.path, TEST_FILE_GLOBS));
+  if (!limits.allowTestDeletion && deletedTests.length) {
+    exceeded.push(`test files deleted: ${deletedTests.map((f) => f.path).join(", ")}`);
+  }
+  return exceeded;
+}
+
+export function formatDiffLimitViolations(exceeded: string[]): string {
+  return (
+    `The change exceeds the size limits for a fix:\n${exceeded.map((e) => `- ${e}`).join("\n")}\n` +
+    "Make the smallest change that fixes the bug, and keep the existing tests."
+  );
+}
+
+// Assertions of common test frameworks
+const ASSERTION_PATTERN =
+  /\bassert\w*\s*[.(!]|\bexpect\s*\(|\.should\b|\bself\.assert\w+\(|\bt\.(?:Error|Fatal)f?\(|\brequire\.\w+\(/;
+// Skipped or disabled tests
+const SKIP_PATTERN =
+  /\.skip\s*\(|\b(?:xit|xtest|xdescribe|xcontext)\s*\(|@pytest\.mark\.(?:skip|skipif|xfail)\b|@unittest\.skip|\bt\.Skip(?:Now|f)?\(|@Disabled\b|@Ignore\b/;
+
+export type TestTampering = {
+  kind: "assertion-removed" | "test-skipped" | "reproducing-test-modified";
+  path: string;
+  line?: string;
+};
+
+/**
+ * Test files a change touches, and the ways it weakens them.
+ */
+export type TestChanges = {
+  files: string[];
+  // Test files the change creates, and with `allowAddedTests`, test files it only adds lines to
+  added: string[];
+  tampering: TestTampering[];
+};
+
+/**
+ * A file in a unified diff with its added and removed lines (without the +/- marker).
+ */
+export type FilePatch = {
+  path: string;
+  isNew: boolean;
+  added: string[];
+  removed: string[];
+};
+
+/**
+ * Parses `git diff --no-renames` output into per-file added and removed lines.
+ */
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+  const patches: FilePatch[] = [];
+  let current: FilePatch | undefined;
+  let inHunk = false;
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      current = { path: "", isNew: false, added: [], removed: [] };
+      patches.push(current);
+      inHunk = false;
+    } else if (!current) {
+      continue;
+    } else if (line.startsWith("@@")) {
+      inHunk = true;
+    } else if (inHunk && line.startsWith("+")) {
+      current.added.push(line.slice(1));
+    } else if (inHunk && line.startsWith("-")) {
+      current.removed.push(line.slice(1));
+    } else if (line.startsWith("new file mode")) {
+      current.isNew = true;
+    } else if (line.startsWith("--- a/") && !current.path) {
+      current.path = line.slice(6);
+    } else if (line.startsWith("+++ b/")) {
+      current.path = line.slice(6);
+    }
+  }
+  return patches.filter((patch) => patch.path);
+}
+
+/**
+ * Test files named by the specific test command, e.g. `npx jest src/app.test.ts` or `pytest tests/test_app.py::test_x`.
+ * `resolve` maps an argument to a repository-relative path when it names an existing file.
+ */
+export function reproducingTestFiles(command: string, resolve: (arg: string) => string | undefined): string[] {
+  const files = new Set<string>();
+  for (const token of command.split(/\s+/)) {
+    const arg = token
+      .replace(/^["']|["']$/g, "")
+      .replace(/::.*$/, "")
+      .replace(/:\d+$/, "");
+    if (!arg || arg.startsWith("-") || arg.includes("=")) continue;
+    const file = resolve(arg);
+    if (file && matchesAnyGlob(file, TEST_FILE_GLOBS)) files.add(file);
+  }
+  return [...files];
+}
+
+/**
+ * Finds the test files in a change, and the assertions it removes or changes, the tests it skips,
+ * and edits to the test that reproduces the bug. With `allowAddedTests`, e.g. when the agent is asked to
+ * write a reproducing test, lines added to the reproducing test are not an edit; changed lines still are.
+ */
+export function detectTestChanges(
+  patches: FilePatch[],
+  reproducingTests: string[],
+  options: { allowAddedTests?: boolean } = {}
+): TestChanges {
+  const changes: TestChanges = { files: [], added: [], tampering: [] };
+  for (const patch of patches) {
+    if (!matchesAnyGlob(patch.path, TEST_FILE_GLOBS)) continue;
+    changes.files.push(patch.path);
+    const onlyAdds = options.allowAddedTests === true && !patch.removed.length;
+    if (patch.isNew || onlyAdds) changes.added.push(patch.path);
+
+    if (reproducingTests.includes(patch.path) && !patch.isNew && !onlyAdds) {
+      changes.tampering.push({ kind: "reproducing-test-modified", path: patch.path });
+    }
+    // An assertion that reappears unchanged was only moved
+    const added = patch.added.map((line) => line.trim());
+    for (const line of patch.removed.filter((l) => ASSERTION_PATTERN.test(l))) {
+      const index = added.indexOf(line.trim());
+      if (index >= 0) added.splice(index, 1);
+      else changes.tampering.push({ kind: "assertion-removed", path: patch.path, line: line.trim() });
+    }
+    const removed = patch.removed.map((line) => line.trim());
+    for (const line of patch.added.filter((l) => SKIP_PATTERN.test(l))) {
+      if (!removed.includes(line.trim())) {
+        changes.tampering.push({ kind: "test-skipped", path: patch.path, line: line.trim() });
+      }
+    }
+  }
+  return changes;
+}
+
+export function formatTestTampering(tampering: TestTampering[]): string {
+  const shown = tampering.slice(0, 20).map((t) => {
+    const line = t.line ? `: \`${t.line.length > 120 ? `${t.line.slice(0, 117)}...` : t.line}\`` : "";
+    if (t.kind === "assertion-removed") return `- assertion removed or changed in ${t.path}${line}`;
+    if (t.kind === "test-skipped") return `- test skipped in ${t.path}${line}`;
+    return `- the reproducing test ${t.path} was modified`;
+  });
+  if (tampering.length > shown.length) shown.push(`- ...and ${tampering.length - shown.length} more`);
+  return shown.join("\n");
+}
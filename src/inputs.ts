@@ -0,0 +1,144 @@
+import * as core from "@actions/core";
+import * as os from "os";
+import * as path from "path";
+
+import { DEFAULT_AGENT_TIMEOUT_MS, DEFAULT_CODEX_MODEL, DEFAULT_AIDER_MODEL, DEFAULT_CLAUDE_MODEL } from "./agents";
+import { DEFAULT_FORBIDDEN_PATHS, parseForbiddenPathAction, parseGlobList } from "./guardrails";
+import { DEFAULT_NETWORK_ALLOWLIST } from "./sandbox";
+import { parseOnExisting, parseReproductionPolicy } from "./lib";
+import { parseTestReportFormat } from "./results";
+import { DEFAULT_LOCK_TIMEOUT_MS, resolveAgentChain } from "./pipeline";
+import type { PipelineConfig } from "./pipeline";
+
+/**
+ * Parses the `retry-max` input; defaults to 3 and never goes below 1.
+ */
+export function parseRetryMax(input: string | undefined): number {
+  const parsed = parseInt(input || "3", 10);
+  return Number.isNaN(parsed) ? 3 : Math.max(1, parsed);
+}
+
+/**
+ * Parses the `flaky-reruns` input; defaults to 2 and never goes below 0.
+ */
+export function parseFlakyReruns(input: string | undefined): number {
+  const parsed = parseInt(input || "2", 10);
+  return Number.isNaN(parsed) ? 2 : Math.max(0, parsed);
+}
+
+/**
+ * Parses a `max-cost-usd` or `max-tokens` budget input; empty means no limit.
+ */
+export function parseBudgetLimit(name: string, input: string | undefined): number | undefined {
+  if (!input?.trim()) return undefined;
+  const parsed = Number(input.trim());
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name} '${input}'. Must be a positive number.`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses a `max-changed-files`, `max-added-lines`, `max-removed-lines` or `candidates` input;
+ * empty means no limit, or the default.
+ */
+export function parseCountLimit(name: string, input: string | undefined): number | undefined {
+  if (!input?.trim()) return undefined;
+  const parsed = Number(input.trim());
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name} '${input}'. Must be a positive whole number.`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses a `*-timeout-minutes` input into milliseconds; empty means no limit.
+ */
+export function parseTimeoutMinutes(name: string, input: string | undefined): number | undefined {
+  const minutes = parseBudgetLimit(name, input);
+  return minutes === undefined ? undefined : Math.round(minutes * 60_000);
+}
+
+/**
+ * Reads the action inputs into the pipeline configuration.
+ */
+export function readInputs(): { ghToken: string; config: PipelineConfig } {
+  return {
+    ghToken: core.getInput("github-token", { required: true }),
+    config: readConfig((name) => core.getInput(name)),
+  };
+}
+
+/**
+ * Builds the pipeline configuration from inputs named as in action.yml; shared by the action and the dry run.
+ */
+export function readConfig(getInput: (name: string) => string): PipelineConfig {
+  const agentInput = getInput("agent") || "aider";
+  const openaiApiKey = getInput("openai-api-key") || "";
+  const anthropicApiKey = getInput("anthropic-api-key") || "";
+  const aiderModel = getInput("aider-model") || DEFAULT_AIDER_MODEL;
+  const codexModel = getInput("codex-model") || DEFAULT_CODEX_MODEL;
+  const claudeModel = getInput("claude-model") || DEFAULT_CLAUDE_MODEL;
+  const customAgentCommand = getInput("custom-agent-command") || "";
+  const customAgentModel = getInput("custom-agent-model") || "";
+  const aiderVersion = getInput("aider-version") || "";
+  const codexVersion = getInput("codex-version") || "";
+  const claudeVersion = getInput("claude-version") || "";
+  const testReportFormat = parseTestReportFormat(getInput("test-report-format"));
+
+  // Parse the agent fallback chain, e.g. "aider,codex" or "aider:gpt-4o,claude"
+  const agentChain = resolveAgentChain({
+    agentInput,
+    models: { codex: codexModel, aider: aiderModel, claude: claudeModel, custom: customAgentModel },
+    versions: { codex: codexVersion, aider: aiderVersion, claude: claudeVersion, custom: "" },
+    openaiApiKey,
+    anthropicApiKey,
+    customAgentCommand,
+  });
+
+  return {
+    agentChain,
+    openaiApiKey,
+    anthropicApiKey,
+    customAgentCommand,
+    requiredLabel: getInput("required-label") || "autofix",
+    baseBranchInput: getInput("base-branch") || "",
+    testCommandSpecific: getInput("test-command-specific") || "",
+    testCommandSuite: getInput("test-command-suite") || "",
+    testReport: testReportFormat ? { format: testReportFormat, path: getInput("test-report-path") || "" } : undefined,
+    repoRoot: process.cwd(),
+    workingDirectory: getInput("working-directory") || "",
+    retryMax: parseRetryMax(getInput("retry-max")),
+    flakyReruns: parseFlakyReruns(getInput("flaky-reruns")),
+    reproductionPolicy: parseReproductionPolicy(getInput("reproduction-policy")),
+    onExisting: parseOnExisting(getInput("on-existing")),
+    maxCostUsd: parseBudgetLimit("max-cost-usd", getInput("max-cost-usd")),
+    maxTokens: parseBudgetLimit("max-tokens", getInput("max-tokens")),
+    agentTimeoutMs:
+      parseTimeoutMinutes("agent-timeout-minutes", getInput("agent-timeout-minutes")) ?? DEFAULT_AGENT_TIMEOUT_MS,
+    testTimeoutMs: parseTimeoutMinutes("test-timeout-minutes", getInput("test-timeout-minutes")),
+    runTimeoutMs: parseTimeoutMinutes("run-timeout-minutes", getInput("run-timeout-minutes")),
+    lockTimeoutMs:
+      parseTimeoutMinutes("lock-timeout-minutes", getInput("lock-timeout-minutes")) ?? DEFAULT_LOCK_TIMEOUT_MS,
+    pathRules: {
+      deny: [...DEFAULT_FORBIDDEN_PATHS, ...parseGlobList(getInput("forbidden-paths"))],
+      allow: parseGlobList(getInput("allowed-paths")),
+      action: parseForbiddenPathAction(getInput("forbidden-path-action")),
+    },
+    diffLimits: {
+      maxChangedFiles: parseCountLimit("max-changed-files", getInput("max-changed-files")),
+      maxAddedLines: parseCountLimit("max-added-lines", getInput("max-added-lines")),
+      maxRemovedLines: parseCountLimit("max-removed-lines", getInput("max-removed-lines")),
+      allowTestDeletion: getInput("allow-test-deletion") === "true",
+    },
+    testChangesLabel: getInput("allow-test-changes-label"),
+    isolation:
+      getInput("isolation") === "true"
+        ? { networkAllowlist: [...DEFAULT_NETWORK_ALLOWLIST, ...parseGlobList(getInput("network-allowlist"))] }
+        : undefined,
+    candidates: parseCountLimit("candidates", getInput("candidates")) ?? 1,
+    addDescription: getInput("add-description") !== "false",
+    descriptionModel: getInput("description-model") || "gpt-4o",
+    reportPath: getInput("report-path") || path.join(process.env.RUNNER_TEMP || os.tmpdir(), "autofix-report.json"),
+  };
+}
@@ -5,11 +5,49 @@ export type GitHubIssueRef = {
   url: string;
 };
 
+export type AutofixCommand = {
+  kind: "run" | "retry";
+  hint?: string;
+};
+
+export type ReviewComment = {
+  path: string;
+  line?: number | null;
+  diffHunk?: string;
+  body: string;
+};
+
+export const REPRODUCTION_POLICIES = ["fail", "warn", "ask-agent-to-write-test"] as const;
+
+// What to do when the specific test already passes before the fix
+export type ReproductionPolicy = (typeof REPRODUCTION_POLICIES)[number];
+
+export const ON_EXISTING_MODES = ["update", "new", "skip"] as const;
+
+// What to do when the issue already has an autofix PR or branch
+export type OnExisting = (typeof ON_EXISTING_MODES)[number];
+
+export type BugReport = {
+  testCaseRefRaw: string;
+  testCommandSpecific: string;
+  testCommandSuite: string;
+  issueBranch: string;
+  bodyWithoutUserStory: string;
+};
+
 export function truncate(s: string, maxChars: number): string {
   if (s.length <= maxChars) return s;
   return `${s.slice(0, maxChars)}\n[TRUNCATED: ${s.length - maxChars} chars]`;
 }
 
+/**
+ * Formats a duration for logs and comments, e.g. "10 min" or "45 s".
+ */
+export function formatDuration(ms: number): string {
+  if (ms >= 60_000) return `${Number((ms / 60_000).toFixed(1))} min`;
+  return `${Math.round(ms / 1000)} s`;
+}
+
 export function extractIssueFormFieldValue(issueBody: string, label: string): string | undefined {
   if (!issueBody.trim()) return undefined;
 
@@ -116,6 +154,31 @@ export function stripIssueSections(issueBody: string, labels: string[]): string
   return out.join("\n").trimEnd();
 }
 
+/**
+ * Extracts the autofix fields from a bug report issue body, falling back to the given test commands.
+ */
+export function parseBugReport(
+  issueBody: string,
+  fallbacks: { testCommandSpecific?: string; testCommandSuite?: string } = {}
+): BugReport {
+  return {
+    testCaseRefRaw:
+      extractIssueFormFieldValue(issueBody, "Test case issue (reference)") ??
+      extractIssueFormFieldValue(issueBody, "Test case issue") ??
+      "",
+    testCommandSpecific:
+      extractIssueFormFieldValue(issueBody, "Test command (specific test for this bug)") ||
+      fallbacks.testCommandSpecific ||
+      "",
+    testCommandSuite:
+      extractIssueFormFieldValue(issueBody, "Test command (full suite for regression)") ||
+      fallbacks.testCommandSuite ||
+      "",
+    issueBranch: extractIssueFormFieldValue(issueBody, "Branch where bug was discovered") || "",
+    bodyWithoutUserStory: stripIssueSections(issueBody, ["User story issue (reference)", "User story issue"]),
+  };
+}
+
 export function resolveBaseBranch(params: {
   issueBranch: string;
   baseBranchInput: string;
@@ -130,6 +193,80 @@ export function resolveBaseBranch(params: {
   return normalizeBranchName(params.defaultBranch) || params.defaultBranch;
 }
 
+/**
+ * Parses an `/autofix` slash command from a comment body.
+ * Supported forms: `/autofix`, `/autofix retry`, `/autofix hint: <text>` and `/autofix retry hint: <text>`.
+ * A hint given with `hint:` may continue over the following lines of the comment; other text after the
+ * command counts as a hint up to the end of its line, and the rest of the comment is left out.
+ */
+export function parseAutofixCommand(commentBody: string): AutofixCommand | undefined {
+  const lines = commentBody.split(/\r?\n/);
+  const start = lines.findIndex((l) => /^\/autofix(\s|$)/i.test(l.trim()));
+  if (start === -1) return undefined;
+
+  const command = lines[start].trim().slice("/autofix".length);
+  const [, retry, hintPrefix, text = ""] = command.match(/^\s*(retry\b)?\s*(hint\s*:)?(.*)$/i) ?? [];
+  const hint = (hintPrefix ? [text, ...lines.slice(start + 1)].join("\n") : text).trim();
+  return { kind: retry ? "retry" : "run", ...(hint ? { hint } : {}) };
+}
+
+/**
+ * Extracts the issue number from an autofix branch name (`qa/issue-<number>-<timestamp>`).
+ */
+export function parseAutofixBranchIssueNumber(ref: string): number | undefined {
+  const m = ref.trim().match(/^(?:refs\/heads\/)?qa\/issue-(\d+)-/);
+  if (!m) return undefined;
+  const number = Number(m[1]);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Formats a pull request review (summary plus inline comments with file and line context) for the agent prompt.
+ */
+export function formatReviewFeedback(params: { reviewBody?: string; comments: ReviewComment[] }): string {
+  const sections: string[] = [];
+
+  const reviewBody = params.reviewBody?.trim();
+  if (reviewBody) sections.push(`REVIEW SUMMARY:\n${reviewBody}`);
+
+  if (params.comments.length) {
+    const inline = params.comments.map((c) => {
+      const location = c.line ? `${c.path} (line ${c.line})` : c.path;
+      const hunk = c.diffHunk?.trim() ? `\`\`\`diff\n${c.diffHunk.trim()}\n\`\`\`\n` : "";
+      return `--- ${location} ---\n${hunk}Comment: ${c.body.trim()}`;
+    });
+    sections.push(`INLINE REVIEW COMMENTS:\n${inline.join("\n\n")}`);
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Parses the `reproduction-policy` input; defaults to `fail`.
+ */
+export function parseReproductionPolicy(input: string): ReproductionPolicy {
+  const value = input.trim() || "fail";
+  if (!(REPRODUCTION_POLICIES as readonly string[]).includes(value)) {
+    throw new Error(`Invalid reproduction-policy '${value}'. Must be one of: ${REPRODUCTION_POLICIES.join(", ")}.`);
+  }
+  return value as ReproductionPolicy;
+}
+
+/**
+ * Parses the `on-existing` input; defaults to `update`.
+ */
+export function parseOnExisting(input: string): OnExisting {
+  const value = input.trim() || "update";
+  if (!(ON_EXISTING_MODES as readonly string[]).includes(value)) {
+    throw new Error(`Invalid on-existing '${value}'. Must be one of: ${ON_EXISTING_MODES.join(", ")}.`);
+  }
+  return value as OnExisting;
+}
+
+export function hasWritePermission(permission: string | undefined): boolean {
+  return permission === "admin" || permission === "maintain" || permission === "write";
+}
+
 function escapeRegExp(s: string): string {
   return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
@@ -0,0 +1,69 @@
+import * as core from "@actions/core";
+import * as path from "path";
+import * as fs from "fs";
+
+import { failedTests, parseTestResults } from "../results";
+import { scrubEnv } from "../secrets";
+import type { TestReportConfig, TestResults } from "../results";
+import type { ExecResult } from "../types";
+import type { PipelineContext, PipelineDeps } from "./types";
+
+/**
+ * Runs the full test suite and, when a test report is configured, parses the per-test results
+ * (and returns the content of the JUnit report file).
+ * A JUnit report left over from a previous run is removed first so it cannot be mistaken for this one.
+ */
+export async function runSuite(
+  ctx: Pick<PipelineContext, "testCommandSuite" | "workingDirectory" | "testTimeoutMs" | "sandbox">,
+  testReport: TestReportConfig | undefined,
+  deps: Pick<PipelineDeps, "exec">
+): Promise<ExecResult & { results?: TestResults; report?: string }> {
+  const reportFile = testReport?.path.trim() ? path.resolve(ctx.workingDirectory, testReport.path.trim()) : undefined;
+  if (reportFile) fs.rmSync(reportFile, { force: true });
+
+  const res = await deps.exec(ctx.testCommandSuite, {
+    silent: true,
+    cwd: ctx.workingDirectory,
+    timeoutMs: ctx.testTimeoutMs,
+    env: scrubEnv(process.env),
+    sandbox: ctx.sandbox,
+  });
+  if (!testReport) return res;
+
+  if (!reportFile) return { ...res, results: parseTestResults(testReport.format, res.stdout) };
+  // A missing report means the suite did not get far enough to write it
+  if (!fs.existsSync(reportFile)) return res;
+  const report = fs.readFileSync(reportFile, "utf8");
+  return { ...res, report, results: parseTestResults(testReport.format, report) };
+}
+
+/**
+ * Runs the full test suite before the fix to record which tests already fail, so verification
+ * only counts new failures as regressions. Returns undefined when no test report is configured.
+ */
+export async function captureBaseline(
+  ctx: Pick<PipelineContext, "testCommandSuite" | "workingDirectory" | "testTimeoutMs" | "sandbox">,
+  testReport: TestReportConfig | undefined,
+  deps: Pick<PipelineDeps, "exec">
+): Promise<TestResults | undefined> {
+  if (!testReport || !ctx.testCommandSuite.trim()) return undefined;
+
+  core.info(`Running full test suite to record the baseline: ${ctx.testCommandSuite}`);
+  const res = await runSuite(ctx, testReport, deps);
+  if (!res.results || !Object.keys(res.results).length) {
+    core.warning(
+      `Could not read any ${testReport.format} test results from the baseline run; ` +
+        "the full test suite must pass after the fix."
+    );
+    return undefined;
+  }
+
+  const failing = failedTests(res.results);
+  if (failing.length) {
+    core.info(`Baseline has ${failing.length} failing test(s); only new failures count as regressions:`);
+    for (const name of failing) core.info(`  - ${name}`);
+  } else {
+    core.info(`Baseline: all ${Object.keys(res.results).length} test(s) pass.`);
+  }
+  return res.results;
+}
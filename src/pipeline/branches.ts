@@ -0,0 +1,97 @@
+import * as core from "@actions/core";
+
+import type { PullRequestData } from "../github";
+import { shellEscape } from "../utils";
+import type { PipelineContext, PipelineDeps } from "./types";
+
+// Commits made before `publish` configures the repository, e.g. by a rebase, need a committer
+export const GIT_BOT_IDENTITY =
+  '-c user.name="github-actions[bot]" -c user.email="41898282+github-actions[bot]@users.noreply.github.com"';
+
+/**
+ * Name prefix of the branches the action creates for an issue, followed by a timestamp.
+ */
+export function autofixBranchPrefix(issueNumber: number): string {
+  return `qa/issue-${issueNumber}-`;
+}
+
+export type AutofixBranch = {
+  branch: string;
+  // Open PR from the branch, if any
+  pr?: PullRequestData;
+};
+
+/**
+ * Lists the autofix branches of the issue on `origin`, the one to continue on first:
+ * branches with an open PR, newest PR first, then the other branches, newest first.
+ */
+export async function findAutofixBranches(
+  ctx: Pick<PipelineContext, "issueNumber" | "repoRoot">,
+  deps: Pick<PipelineDeps, "github" | "exec">
+): Promise<AutofixBranch[]> {
+  const prefix = autofixBranchPrefix(ctx.issueNumber);
+  const remote = await deps.exec(`git ls-remote --heads origin ${shellEscape(`refs/heads/${prefix}*`)}`, {
+    silent: true,
+    cwd: ctx.repoRoot,
+  });
+  if (remote.exitCode !== 0) {
+    throw new Error(`Could not list the branches of origin: ${remote.stderr.trim()}`);
+  }
+  const branches = remote.stdout
+    .split("\n")
+    .map((line) => line.split("\t")[1]?.replace(/^refs\/heads\//, ""))
+    .filter((branch): branch is string => !!branch);
+  const prs = await deps.github.listOpenPullRequests(prefix);
+  const createdAt = (branch: string) => Number(branch.slice(prefix.length)) || 0;
+
+  return branches
+    .map((branch) => ({ branch, pr: prs.find((pr) => pr.headRef === branch) }))
+    .sort((a, b) => (b.pr?.number ?? 0) - (a.pr?.number ?? 0) || createdAt(b.branch) - createdAt(a.branch));
+}
+
+/**
+ * Deletes the autofix branches without an open PR from `origin`, except the one the run continues on.
+ * Returns the deleted branches; a failed deletion only logs a warning.
+ */
+export async function deleteStaleBranches(
+  params: { repoRoot: string; branches: AutofixBranch[]; keep?: string },
+  deps: Pick<PipelineDeps, "exec">
+): Promise<string[]> {
+  const stale = params.branches.filter((b) => !b.pr && b.branch !== params.keep).map((b) => b.branch);
+  if (!stale.length) return [];
+
+  core.info(`Deleting stale autofix branches: ${stale.join(", ")}`);
+  const res = await deps.exec(`git push origin --delete ${stale.map(shellEscape).join(" ")}`, {
+    cwd: params.repoRoot,
+  });
+  if (res.exitCode !== 0) {
+    core.warning(`Could not delete the stale autofix branches: ${res.stderr.trim()}`);
+    return [];
+  }
+  return stale;
+}
+
+/**
+ * Checks out an earlier autofix branch, rebased onto the base branch. A branch that does not rebase
+ * cleanly starts over from the base branch, keeping its name and PR. Returns whether the rebase succeeded.
+ */
+export async function resumeBranch(
+  ctx: Pick<PipelineContext, "baseBranch" | "repoRoot">,
+  branch: string,
+  deps: Pick<PipelineDeps, "exec">
+): Promise<boolean> {
+  const { exec } = deps;
+  const cwd = ctx.repoRoot;
+  const base = shellEscape(`origin/${ctx.baseBranch}`);
+
+  core.info(`Continuing on ${branch}, rebased onto ${ctx.baseBranch}...`);
+  await exec(`git fetch origin ${shellEscape(ctx.baseBranch)} ${shellEscape(branch)}`, { cwd });
+  await exec(`git checkout -B ${shellEscape(branch)} ${shellEscape(`origin/${branch}`)}`, { cwd });
+  const rebase = await exec(`git ${GIT_BOT_IDENTITY} rebase ${base}`, { cwd });
+  if (rebase.exitCode === 0) return true;
+
+  await exec("git rebase --abort", { silent: true, cwd });
+  core.warning(`${branch} does not rebase cleanly onto ${ctx.baseBranch}; starting it over from ${ctx.baseBranch}.`);
+  await exec(`git reset --hard ${base}`, { cwd });
+  return false;
+}
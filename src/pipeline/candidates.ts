@@ -0,0 +1,213 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as path from "path";
+
+import type { AgentType } from "../agents";
+import { rankCandidates } from "../candidates";
+import type { CandidateSummary } from "../candidates";
+import type { TestResults } from "../results";
+import { grantSandboxAccess } from "../sandbox";
+import { addUsage, NO_USAGE } from "../usage";
+import { shellEscape } from "../utils";
+import { runAgentFix } from "./fix";
+import type { AgentChainResult, FixConfig, FixContext } from "./fix";
+import { diffStat } from "./guardrails";
+import type { AttemptReport } from "./report";
+import type { PipelineDeps } from "./types";
+
+// An ignore pattern that matches exactly this path from the repository root
+function literalPattern(p: string): string {
+  return `/${p.replace(/[\\*?[]/g, (c) => `\\${c}`)}`;
+}
+
+/**
+ * Generates `config.candidates` independent fixes at the same time, each in its own git worktree,
+ * and applies the best one to the checkout, see `rankCandidates`.
+ * Candidate i uses agent i of the chain, wrapping around; the candidates share the budget.
+ * The worktrees link to the ignored files of the checkout, such as installed dependencies.
+ */
+export async function runCandidates(
+  params: {
+    ctx: FixContext;
+    config: FixConfig;
+    testFailureOutput?: string;
+    // The specific test passes before the fix; ask the agents to write one that reproduces the bug
+    writeReproductionTest?: boolean;
+    // Suite results before the fix
+    baseline?: TestResults;
+    // Epoch ms after which no new attempt starts
+    deadline?: number;
+    notify: (body: string) => Promise<void>;
+    onAttempt?: (attempt: AttemptReport) => void;
+    // Called once: the candidates run side by side, so their attempts are only reported through `onAttempt`
+    onStage?: (stage: string, phase?: string) => Promise<void>;
+  },
+  deps: Pick<PipelineDeps, "exec" | "getAgent">
+): Promise<AgentChainResult> {
+  const { ctx, config } = params;
+  const { exec } = deps;
+  const count = config.candidates ?? 1;
+  const entries = Array.from({ length: count }, (_, i) => config.agentChain[i % config.agentChain.length]);
+  core.info(`Generating ${count} candidate fixes: ${entries.map((e) => `${e.type} (${e.model})`).join(", ")}`);
+
+  if (config.installAgents !== false) {
+    const installed = new Set<AgentType>();
+    for (const entry of entries) {
+      if (installed.has(entry.type)) continue;
+      installed.add(entry.type);
+      await deps.getAgent(entry.type).install(entry.version);
+    }
+  }
+
+  const gitDir = (
+    await exec("git rev-parse --path-format=absolute --git-common-dir", { silent: true, cwd: ctx.repoRoot })
+  ).stdout.trim();
+  const root = path.join(gitDir, "autofix-candidates");
+  // Left over by a run that did not finish
+  fs.rmSync(root, { recursive: true, force: true });
+  await exec("git worktree prune", { silent: true, cwd: ctx.repoRoot });
+
+  // The links to ignored directories are not directories themselves, so they need patterns of their own
+  const ignored = (
+    await exec("git ls-files --others --ignored --exclude-standard --directory -z", {
+      silent: true,
+      cwd: ctx.repoRoot,
+    })
+  ).stdout
+    .split("\0")
+    .map((p) => p.replace(/\/$/, ""))
+    .filter(Boolean);
+  const excludeFile = path.join(gitDir, "info", "exclude");
+  const originalExclude = fs.existsSync(excludeFile) ? fs.readFileSync(excludeFile, "utf8") : undefined;
+
+  const worktrees: string[] = [];
+  try {
+    if (ignored.length) {
+      fs.mkdirSync(path.dirname(excludeFile), { recursive: true });
+      const separator = originalExclude && !originalExclude.endsWith("\n") ? "\n" : "";
+      fs.appendFileSync(excludeFile, `${separator}${ignored.map(literalPattern).join("\n")}\n`, "utf8");
+    }
+    for (let i = 0; i < count; i++) {
+      const dir = path.join(root, String(i + 1));
+      const added = await exec(`git worktree add --detach ${shellEscape(dir)} HEAD`, {
+        silent: true,
+        cwd: ctx.repoRoot,
+      });
+      if (added.exitCode !== 0) {
+        throw new Error(`Could not create the worktree for candidate ${i + 1}: ${added.stderr.trim()}`);
+      }
+      worktrees.push(dir);
+      for (const p of ignored) {
+        const link = path.join(dir, p);
+        fs.mkdirSync(path.dirname(link), { recursive: true });
+        fs.symlinkSync(path.join(ctx.repoRoot, p), link);
+      }
+      if (ctx.sandbox) await grantSandboxAccess(ctx.sandbox, dir, exec);
+    }
+
+    await params.onStage?.(`Generating ${count} candidate fixes`);
+    // Each candidate keeps its comments; only the outcome of the whole run is posted
+    const comments: string[][] = entries.map(() => []);
+    let usage = NO_USAGE;
+    const results = await Promise.all(
+      entries.map((entry, i) =>
+        runAgentFix(
+          {
+            ctx: {
+              ...ctx,
+              repoRoot: worktrees[i],
+              workingDirectory: path.join(worktrees[i], path.relative(ctx.repoRoot, ctx.workingDirectory)),
+            },
+            config,
+            agent: deps.getAgent(entry.type),
+            agentType: entry.type,
+            model: entry.model,
+            testFailureOutput: params.testFailureOutput,
+            writeReproductionTest: params.writeReproductionTest,
+            baseline: params.baseline,
+            deadline: params.deadline,
+            sharedUsage: () => usage,
+            notify: async (body) => {
+              comments[i].push(body);
+            },
+            onAttempt: (attempt) => {
+              usage = addUsage(usage, attempt.usage);
+              params.onAttempt?.({ ...attempt, candidate: i + 1 });
+            },
+          },
+          deps
+        )
+      )
+    );
+
+    const summaries: CandidateSummary[] = [];
+    for (const [i, result] of results.entries()) {
+      const candidate = { index: i + 1, agentType: entries[i].type, model: entries[i].model };
+      if (!result.success) {
+        summaries.push({ ...candidate, passed: false, reason: result.reason });
+        continue;
+      }
+      const changedLines = (await diffStat(worktrees[i], deps)).reduce((n, f) => n + f.added + f.removed, 0);
+      await exec("git add -A", { silent: true, cwd: worktrees[i] });
+      const diff = (await exec("git diff --cached --binary HEAD", { silent: true, cwd: worktrees[i] })).stdout;
+      summaries.push({
+        ...candidate,
+        passed: true,
+        changedLines,
+        guardrailViolations: result.guardrailViolations,
+        diff,
+      });
+    }
+
+    const ranked = rankCandidates(summaries);
+    const best = ranked[0];
+    const bestResult = results[best.index - 1];
+    if (!bestResult.success) {
+      const details = summaries.map((s) => {
+        const last = comments[s.index - 1][comments[s.index - 1].length - 1];
+        return (
+          `<details>\n<summary>Candidate ${s.index} (${s.agentType}, ${s.model}): ${s.reason}</summary>\n\n` +
+          `${last ?? ""}\n</details>`
+        );
+      });
+      await params.notify(
+        `None of the ${count} candidates produced a working fix. PR not opened.\n\n${details.join("\n\n")}`
+      );
+      return {
+        success: false,
+        reason: `None of the ${count} candidates produced a working fix.`,
+        timedOut: results.every((r) => !r.success && r.timedOut),
+      };
+    }
+
+    core.info(`Picked candidate ${best.index} of ${count} (${best.agentType}, ${best.model}).`);
+    if (best.diff) {
+      // Staged, so its new files are not left untracked
+      const applied = await exec("git apply --binary --index", { silent: true, cwd: ctx.repoRoot, input: best.diff });
+      if (applied.exitCode !== 0) {
+        throw new Error(`Could not apply the change of candidate ${best.index}: ${applied.stderr.trim()}`);
+      }
+    }
+    return {
+      success: true,
+      prompt: bestResult.prompt,
+      agentType: best.agentType,
+      model: best.model,
+      flaky: bestResult.flaky,
+      testChanges: bestResult.testChanges,
+      candidates: ranked,
+    };
+  } finally {
+    for (const dir of worktrees) {
+      const removed = await exec(`git worktree remove --force ${shellEscape(dir)}`, {
+        silent: true,
+        cwd: ctx.repoRoot,
+      });
+      if (removed.exitCode !== 0) core.warning(`Could not remove the worktree ${dir}: ${removed.stderr.trim()}`);
+    }
+    if (ignored.length) {
+      if (originalExclude === undefined) fs.rmSync(excludeFile, { force: true });
+      else fs.writeFileSync(excludeFile, originalExclude, "utf8");
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import * as core from "@actions/core";
+
+import { postCommentWithChunks } from "../github";
+import type { GitHubClient } from "../github";
+import {
+  formatReviewFeedback,
+  hasWritePermission,
+  parseAutofixBranchIssueNumber,
+  parseAutofixCommand,
+  parseBugReport,
+  parseGitHubIssueRef,
+  resolveBaseBranch,
+  truncate,
+} from "../lib";
+import { STATUS_LABELS } from "./progress";
+import type { PipelineConfig, PipelineContext, PipelineDeps, PipelineEvent, PipelineResult, Trigger } from "./types";
+
+function skip(message: string): PipelineResult {
+  core.info(message);
+  return { outcome: "skipped", message };
+}
+
+// A failed lookup, e.g. GitHub's 404 for a user who is not a collaborator, counts as no permission
+async function canWrite(github: GitHubClient, username: string): Promise<boolean> {
+  try {
+    return hasWritePermission(await github.getCollaboratorPermission(username));
+  } catch (e) {
+    core.warning(`Failed to look up the permission of '${username}': ${e instanceof Error ? e.message : String(e)}`);
+    return false;
+  }
+}
+
+/**
+ * Works out which issue to fix from the triggering event, and whether the run should proceed at all.
+ */
+export async function resolveTrigger(
+  event: PipelineEvent,
+  config: Pick<PipelineConfig, "requiredLabel">,
+  deps: Pick<PipelineDeps, "github">
+): Promise<Trigger | PipelineResult> {
+  const { eventName, payload } = event;
+  const { github } = deps;
+
+  if (eventName === "pull_request_review") {
+    const { review, pull_request: pullRequest } = payload as {
+      review?: { id?: number; state?: string; body?: string | null; user?: { login?: string } };
+      pull_request?: { number?: number; html_url?: string; head?: { ref?: string }; base?: { ref?: string } };
+    };
+    if (payload.action !== "submitted" || review?.state?.toLowerCase() !== "changes_requested") {
+      return skip("Review does not request changes. Skipping.");
+    }
+    if (!review.id || !pullRequest?.number || !pullRequest.head?.ref || !pullRequest.base?.ref) {
+      throw new Error("Incomplete pull request review payload.");
+    }
+
+    const issueNumber = parseAutofixBranchIssueNumber(pullRequest.head.ref);
+    if (!issueNumber) {
+      return skip(`PR #${pullRequest.number} is not an autofix PR. Skipping.`);
+    }
+
+    const reviewer = review.user?.login ?? "";
+    if (!(await canWrite(github, reviewer))) {
+      return skip(`User '${reviewer}' does not have write access to ${github.owner}/${github.repo}. Skipping.`);
+    }
+
+    const reviewPr = {
+      number: pullRequest.number,
+      headRef: pullRequest.head.ref,
+      baseRef: pullRequest.base.ref,
+      url: pullRequest.html_url ?? "",
+    };
+
+    const reviewComments = await github.listReviewComments(reviewPr.number, review.id);
+    const reviewFeedback = formatReviewFeedback({ reviewBody: review.body ?? "", comments: reviewComments });
+    if (!reviewFeedback) {
+      return skip("Review has no comments to address. Skipping.");
+    }
+
+    core.info(
+      `Addressing review by ${reviewer} on PR #${reviewPr.number} (${reviewComments.length} inline comment(s)).`
+    );
+    return { issueNumber, commentNumber: reviewPr.number, reviewPr, reviewFeedback };
+  }
+
+  if (eventName !== "issues" && eventName !== "issue_comment") {
+    return skip(`Event ${eventName} is not supported. Skipping.`);
+  }
+
+  const issue = (
+    payload as {
+      issue?: { number?: number; labels?: Array<string | { name?: string }>; pull_request?: unknown };
+    }
+  ).issue;
+  if (!issue?.number) throw new Error("No issue number found in the event payload.");
+
+  if (eventName === "issues") {
+    // The run labels the issue itself; those labels must not start another run
+    const added = (payload as { label?: { name?: string } }).label?.name;
+    if (payload.action === "labeled" && Object.values<string>(STATUS_LABELS).includes(added ?? "")) {
+      return skip(`Label '${added}' is a status label. Skipping.`);
+    }
+
+    const labels: string[] = Array.isArray(issue.labels)
+      ? issue.labels.map((l) => (typeof l === "string" ? l : l?.name)).filter((n): n is string => typeof n === "string")
+      : [];
+
+    if (config.requiredLabel && !labels.includes(config.requiredLabel)) {
+      return skip(`Issue #${issue.number} does not have label '${config.requiredLabel}'. Skipping.`);
+    }
+
+    return { issueNumber: issue.number, commentNumber: issue.number };
+  }
+
+  const comment = (payload as { comment?: { id?: number; body?: string; user?: { login?: string } } }).comment;
+  if (payload.action !== "created" || !comment?.id) {
+    return skip(`Comment event action '${payload.action}' is not supported. Skipping.`);
+  }
+
+  const command = parseAutofixCommand(comment.body ?? "");
+  if (!command) {
+    return skip("Comment does not contain an /autofix command. Skipping.");
+  }
+
+  const commenter = comment.user?.login ?? "";
+  if (!(await canWrite(github, commenter))) {
+    return skip(`User '${commenter}' does not have write access to ${github.owner}/${github.repo}. Skipping.`);
+  }
+
+  try {
+    await github.addCommentReaction(comment.id, "eyes");
+  } catch (e) {
+    core.warning(`Failed to react to comment: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  // Commands on an autofix PR steer the fix for the issue the PR was opened for
+  let issueNumber = issue.number;
+  if (issue.pull_request) {
+    const pr = await github.getPullRequest(issue.number);
+    const prIssueNumber = parseAutofixBranchIssueNumber(pr.headRef);
+    if (!prIssueNumber) {
+      return skip(`PR #${issue.number} is not an autofix PR. Skipping.`);
+    }
+    issueNumber = prIssueNumber;
+  }
+
+  core.info(
+    `/autofix ${command.kind} requested by ${commenter} for issue #${issueNumber}` +
+      (command.hint ? ` with hint: ${command.hint}` : "")
+  );
+  return { issueNumber, commentNumber: issueNumber, command };
+}
+
+/**
+ * Loads the issue, its referenced test case and the base branch. Fails the run (with a comment) when
+ * the base branch does not exist, to avoid a later PR creation failure.
+ */
+export async function loadContext(
+  trigger: Trigger,
+  config: PipelineConfig,
+  deps: Pick<PipelineDeps, "github">
+): Promise<PipelineContext | PipelineResult> {
+  const { github } = deps;
+
+  const issue = await github.getIssue(trigger.issueNumber);
+
+  // Test commands from the issue body take priority over action inputs
+  const { testCaseRefRaw, testCommandSpecific, testCommandSuite, issueBranch, bodyWithoutUserStory } = parseBugReport(
+    issue.body,
+    { testCommandSpecific: config.testCommandSpecific, testCommandSuite: config.testCommandSuite }
+  );
+
+  const testCaseRef = parseGitHubIssueRef({
+    input: testCaseRefRaw,
+    defaultOwner: github.owner,
+    defaultRepo: github.repo,
+  });
+
+  const referencedContexts: string[] = [];
+  if (testCaseRef) {
+    try {
+      const refIssue = await github.getIssue(testCaseRef.number, { owner: testCaseRef.owner, repo: testCaseRef.repo });
+      referencedContexts.push(
+        "REFERENCED TEST CASE ISSUE\n" +
+          `URL: ${testCaseRef.url}\n` +
+          `Title: ${refIssue.title}\n\n` +
+          `Body:\n${refIssue.body}\n`
+      );
+    } catch (e) {
+      core.warning(
+        `Failed to fetch referenced test case issue (${testCaseRef.url}). Continuing without it. ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+  }
+
+  const issueBody = truncate(
+    bodyWithoutUserStory + (referencedContexts.length ? `\n\n${referencedContexts.join("\n\n")}` : ""),
+    180_000
+  );
+
+  // Priority: base-branch input (forced) > issue branch field > repo default
+  // Review follow-ups always target the base of the PR under review
+  const baseBranch =
+    trigger.reviewPr?.baseRef ??
+    resolveBaseBranch({
+      issueBranch,
+      baseBranchInput: config.baseBranchInput,
+      defaultBranch: await github.getDefaultBranch(),
+    });
+
+  if (!(await github.branchExists(baseBranch))) {
+    const msg =
+      `Base branch '${baseBranch}' does not exist in ${github.owner}/${github.repo}. ` +
+      "Set the action input 'base-branch' to a valid branch name (recommended: the repo default branch), " +
+      "or ensure the issue field 'Branch where bug was discovered' matches an existing branch.";
+    await postCommentWithChunks({ github, issueNumber: trigger.commentNumber, body: msg });
+    return { outcome: "failed", message: msg };
+  }
+
+  const workingDirectory = config.workingDirectory.trim()
+    ? `${config.repoRoot}/${config.workingDirectory.trim()}`
+    : config.repoRoot;
+
+  return {
+    ...trigger,
+    issueTitle: issue.title,
+    issueBody,
+    issueLabels: issue.labels ?? [],
+    testCommandSpecific,
+    testCommandSuite,
+    testTimeoutMs: config.testTimeoutMs,
+    baseBranch,
+    repoRoot: config.repoRoot,
+    workingDirectory,
+  };
+}
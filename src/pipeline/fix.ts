@@ -0,0 +1,735 @@
+import * as core from "@actions/core";
+
+import { parseAgentChain } from "../agents";
+import type { Agent, AgentType } from "../agents";
+import type { CandidateSummary } from "../candidates";
+import { condenseTestOutput } from "../failures";
+import { checkDiffLimits, formatDiffLimitViolations, formatForbiddenChanges, formatTestTampering } from "../guardrails";
+import type { TestChanges, TestTampering } from "../guardrails";
+import { formatDuration, truncate } from "../lib";
+import { failedTests } from "../results";
+import type { FlakyTest, TestResults } from "../results";
+import type { ExecResult } from "../types";
+import { addUsage, checkBudget, estimateUsage, formatUsage, NO_USAGE, parseAgentUsage } from "../usage";
+import type { TokenUsage } from "../usage";
+import { shellEscape } from "../utils";
+import { autofixBranchPrefix } from "./branches";
+import { diffStat, enforcePathRules, inspectTestChanges } from "./guardrails";
+import { buildAgentPrompt } from "./prompt";
+import { checkReproductionTest } from "./reproduce";
+import type { PipelineConfig, PipelineContext, PipelineDeps, ResolvedAgent } from "./types";
+import { verificationReport } from "./report";
+import type { AttemptReport } from "./report";
+import { verifyFix } from "./verify";
+import type { VerifyResult } from "./verify";
+
+type AgentCredentials = Pick<PipelineConfig, "openaiApiKey" | "anthropicApiKey" | "customAgentCommand">;
+
+/**
+ * Resolves the `agent` input into the fallback chain, with each entry's model and version,
+ * and validates that the credentials each agent needs were provided.
+ */
+export function resolveAgentChain(
+  params: AgentCredentials & {
+    agentInput: string;
+    models: Record<AgentType, string>;
+    versions: Record<AgentType, string>;
+  }
+): ResolvedAgent[] {
+  const { openaiApiKey, anthropicApiKey, customAgentCommand } = params;
+  const chain = parseAgentChain(params.agentInput).map((entry) => ({
+    type: entry.type,
+    model: entry.model ?? params.models[entry.type],
+    version: params.versions[entry.type],
+  }));
+
+  // Validate API keys based on agent type
+  for (const { type: agentType } of chain) {
+    if (agentType === "codex" && !openaiApiKey.trim()) {
+      throw new Error("openai-api-key is required when using codex agent");
+    }
+    if (agentType === "aider" && !openaiApiKey.trim() && !anthropicApiKey.trim()) {
+      throw new Error("At least one of openai-api-key or anthropic-api-key must be provided when using aider agent");
+    }
+    if (agentType === "claude" && !anthropicApiKey.trim()) {
+      throw new Error("anthropic-api-key is required when using claude agent");
+    }
+    if (agentType === "custom" && !customAgentCommand.trim()) {
+      throw new Error("custom-agent-command is required when using custom agent");
+    }
+  }
+
+  return chain;
+}
+
+/**
+ * Checks out the branch the fix is committed to: the PR branch for review follow-ups,
+ * otherwise a new working branch created from the up-to-date base branch.
+ * With `resume`, an earlier autofix branch, only the base branch is checked out: the bug is reproduced
+ * there, then `resumeBranch` switches to the earlier branch.
+ */
+export async function checkoutWorkingBranch(
+  ctx: Pick<PipelineContext, "issueNumber" | "baseBranch" | "reviewPr" | "repoRoot">,
+  deps: Pick<PipelineDeps, "exec">,
+  resume?: string
+): Promise<string> {
+  const { exec } = deps;
+  const cwd = ctx.repoRoot;
+
+  if (ctx.reviewPr) {
+    // Continue on the branch of the PR under review
+    const branchName = ctx.reviewPr.headRef;
+    core.info(`Checking out PR branch ${branchName}...`);
+    await exec(`git fetch origin ${shellEscape(branchName)}`, { cwd });
+    await exec(`git checkout ${shellEscape(branchName)}`, { cwd });
+    await exec(`git pull --ff-only origin ${shellEscape(branchName)}`, { cwd });
+    return branchName;
+  }
+
+  // Checkout base branch and create working branch BEFORE running agent
+  core.info(`Checking out base branch ${ctx.baseBranch} and creating working branch...`);
+  await exec(`git fetch origin ${shellEscape(ctx.baseBranch)}`, { cwd });
+  await exec(`git checkout ${shellEscape(ctx.baseBranch)}`, { cwd });
+  await exec(`git pull --ff-only origin ${shellEscape(ctx.baseBranch)}`, { cwd });
+  if (resume) return resume;
+
+  const branchName = `${autofixBranchPrefix(ctx.issueNumber)}${Date.now()}`;
+  await exec(`git checkout -b ${shellEscape(branchName)}`, { cwd });
+  return branchName;
+}
+
+export type FixContext = Pick<
+  PipelineContext,
+  | "issueTitle"
+  | "issueBody"
+  | "command"
+  | "reviewFeedback"
+  | "testCommandSpecific"
+  | "testCommandSuite"
+  | "testTimeoutMs"
+  | "repoRoot"
+  | "workingDirectory"
+  | "issueLabels"
+  | "sandbox"
+>;
+
+export type FixConfig = AgentCredentials &
+  Pick<
+    PipelineConfig,
+    | "agentChain"
+    | "retryMax"
+    | "installAgents"
+    | "testReport"
+    | "flakyReruns"
+    | "maxCostUsd"
+    | "maxTokens"
+    | "agentTimeoutMs"
+    | "pathRules"
+    | "diffLimits"
+    | "testChangesLabel"
+    | "candidates"
+  >;
+
+function describeFailedVerification(failed: "suite" | "specific"): string {
+  return failed === "suite" ? "the full test suite failed" : "the specific test still failed";
+}
+
+// With `allowAddedTests`, the agent may add test cases to the reproducing test
+function testTamperingNote(tampering: TestTampering[], allowAddedTests?: boolean): string {
+  return (
+    `The change weakens the tests:\n${formatTestTampering(tampering)}\n` +
+    (allowAddedTests
+      ? "Fix the code, not the tests: keep the assertions, do not skip tests and only add new test cases to the reproducing test."
+      : "Fix the code, not the tests: keep the assertions, do not skip tests and leave the reproducing test unchanged.")
+  );
+}
+
+export type AgentFixResult =
+  | {
+      success: true;
+      prompt: string;
+      flaky: FlakyTest[];
+      testChanges: TestChanges;
+      // Reverted forbidden-path changes and test changes the label allowed
+      guardrailViolations: number;
+    }
+  // budgetExceeded (cost, tokens or run time) stops the fallback chain as well
+  | { success: false; reason: string; failureOutput: string; budgetExceeded?: boolean; timedOut?: boolean };
+
+/**
+ * Runs one agent until it produces a fix that passes the tests, or until it gives up.
+ * Aider uses its native test-driven repair loop; other agents get up to `retryMax` attempts.
+ */
+export async function runAgentFix(
+  params: {
+    ctx: FixContext;
+    config: FixConfig;
+    agent: Agent;
+    agentType: AgentType;
+    model: string;
+    // Next agent of the fallback chain, if any
+    nextAgent?: AgentType;
+    testFailureOutput?: string;
+    // The specific test passes before the fix; ask the agent to write one that reproduces the bug
+    writeReproductionTest?: boolean;
+    // Suite results before the fix
+    baseline?: TestResults;
+    previousAgentFailures?: string[];
+    // Usage of the run before this agent, counted against the budget
+    usage?: TokenUsage;
+    // Usage counted against the budget instead, when agents running side by side share it
+    sharedUsage?: () => TokenUsage;
+    // Run deadline (epoch ms) and the longest attempt before this agent, to tell whether another attempt fits
+    deadline?: number;
+    longestAttemptMs?: number;
+    notify: (body: string) => Promise<void>;
+    // Called after each attempt, for the run report
+    onAttempt?: (attempt: AttemptReport) => void;
+    // Called when an attempt starts and when its fix is verified, for the progress comment
+    onStage?: (stage: string, phase?: string) => Promise<void>;
+  },
+  deps: Pick<PipelineDeps, "exec">
+): Promise<AgentFixResult> {
+  const { ctx, config, agent, agentType, model } = params;
+  const { retryMax } = config;
+  const { repoRoot, workingDirectory } = ctx;
+  const { exec } = deps;
+  const outcomeNote = params.nextAgent ? `Falling back to ${params.nextAgent}.` : "PR not opened.";
+  // Without the label, a fix that weakens the tests is rejected
+  const testTamperingAllowed = !!config.testChangesLabel && !!ctx.issueLabels?.includes(config.testChangesLabel);
+  const allowedTamperingWarning = () =>
+    core.warning(`The change weakens the tests, which the '${config.testChangesLabel}' label allows.`);
+
+  let usage = params.usage ?? NO_USAGE;
+  let longestAttemptMs = params.longestAttemptMs ?? 0;
+  let previousTestFailure: string | undefined;
+  const record = (
+    attempt: number,
+    startedAt: number,
+    prompt: string,
+    agentResult: ExecResult,
+    verification?: VerifyResult
+  ) => {
+    const output = agentResult.stdout + agentResult.stderr;
+    const attemptUsage = parseAgentUsage(agentType, model, output) ?? estimateUsage(model, prompt, output);
+    usage = addUsage(usage, attemptUsage);
+    const durationMs = Date.now() - startedAt;
+    longestAttemptMs = Math.max(longestAttemptMs, durationMs);
+    params.onAttempt?.({
+      agent: agentType,
+      model,
+      attempt,
+      exitCode: agentResult.exitCode,
+      timedOut: agentResult.timedOut,
+      durationMs,
+      verification: verification && verificationReport(verification),
+      usage: attemptUsage,
+    });
+  };
+  // Comments that end this agent's run carry the usage of the run so far
+  const notifyWithUsage = (body: string) => params.notify(`${body}\n\n${formatUsage(usage)}`);
+  const stage = `Fixing with ${agentType} (${model})`;
+
+  // Agent timeout for the next attempt, cut to the time left before the run deadline.
+  // Undefined when the time left is shorter than the longest attempt so far.
+  const attemptTimeout = (): number | undefined => {
+    if (params.deadline === undefined) return config.agentTimeoutMs;
+    const remaining = params.deadline - Date.now();
+    if (remaining <= 0 || remaining < longestAttemptMs) return undefined;
+    return Math.min(config.agentTimeoutMs, remaining);
+  };
+  const outOfTime = async (attempts: number): Promise<AgentFixResult> => {
+    const remaining = Math.max(0, (params.deadline ?? 0) - Date.now());
+    const why =
+      `${formatDuration(remaining)} left of the run timeout` +
+      (longestAttemptMs ? `, less than the longest attempt so far (${formatDuration(longestAttemptMs)})` : "");
+    await notifyWithUsage(
+      `${attempts ? `Stopping ${agentType} after ${attempts} attempt(s)` : `Not starting ${agentType}`}: ${why}. PR not opened.`
+    );
+    return {
+      success: false,
+      reason: `Run timeout reached after ${attempts} attempt(s) of ${agentType}: ${why}.`,
+      failureOutput: previousTestFailure ?? "",
+      budgetExceeded: true,
+      timedOut: true,
+    };
+  };
+
+  const promptParams = {
+    issueTitle: ctx.issueTitle,
+    issueBody: ctx.issueBody,
+    agentType,
+    testFailureOutput: params.testFailureOutput,
+    writeReproductionTest: params.writeReproductionTest,
+    command: ctx.command,
+    reviewFeedback: ctx.reviewFeedback,
+    previousAgentFailures: params.previousAgentFailures,
+    forbiddenPaths: config.pathRules,
+  };
+
+  if (agentType === "aider") {
+    core.info("Using Aider with native test-driven repair loop...");
+
+    const prompt = buildAgentPrompt(promptParams);
+    const timeoutMs = attemptTimeout();
+    if (timeoutMs === undefined) return outOfTime(0);
+    await params.onStage?.(stage, "running its test loop");
+    const startedAt = Date.now();
+
+    // Chain specific test and suite for Aider's native loop
+    // If specific test passes, it will run the suite to check for regressions.
+    // A suite that already fails before the fix is left to verification, which compares it to the baseline.
+    const suiteForAider = params.baseline && failedTests(params.baseline).length ? "" : ctx.testCommandSuite;
+    const testCmds = [ctx.testCommandSpecific, suiteForAider].filter((cmd) => cmd.trim()).join(" && ");
+
+    const agentResult = await agent.run({
+      prompt,
+      repoRoot,
+      workingDirectory: workingDirectory !== repoRoot ? workingDirectory : undefined,
+      openaiApiKey: config.openaiApiKey || undefined,
+      anthropicApiKey: config.anthropicApiKey || undefined,
+      model,
+      testCommand: testCmds,
+      timeoutMs,
+      sandbox: ctx.sandbox,
+    });
+
+    if (agentResult.exitCode === 0) {
+      const violations = await enforcePathRules(repoRoot, config.pathRules, deps);
+      const violationNote = violations.length ? formatForbiddenChanges(violations, config.pathRules.action) : "";
+      if (violations.length && config.pathRules.action === "fail") {
+        record(1, startedAt, prompt, agentResult);
+        await notifyWithUsage(`Aider changed forbidden paths. ${outcomeNote}\n\n${violationNote}`);
+        return { success: false, reason: "Aider changed forbidden paths.", failureOutput: violationNote };
+      }
+      const exceeded = checkDiffLimits(await diffStat(repoRoot, deps), config.diffLimits);
+      if (exceeded.length) {
+        record(1, startedAt, prompt, agentResult);
+        const limitNote = formatDiffLimitViolations(exceeded);
+        await notifyWithUsage(`Aider's change exceeds the size limits. ${outcomeNote}\n\n${limitNote}`);
+        return { success: false, reason: "Aider's change exceeds the size limits.", failureOutput: limitNote };
+      }
+      const testChanges = await inspectTestChanges(ctx, deps, { allowAddedTests: params.writeReproductionTest });
+      if (testChanges.tampering.length && !testTamperingAllowed) {
+        record(1, startedAt, prompt, agentResult);
+        const tamperingNote = testTamperingNote(testChanges.tampering, params.writeReproductionTest);
+        await notifyWithUsage(
+          `Aider's change weakens the tests. ${outcomeNote}\n\n${tamperingNote}\n\n` +
+            `Add the '${config.testChangesLabel}' label to the issue to allow such changes.`
+        );
+        return { success: false, reason: "Aider's change weakens the tests.", failureOutput: tamperingNote };
+      }
+      if (testChanges.tampering.length) allowedTamperingWarning();
+      const reproductionTest = params.writeReproductionTest
+        ? await checkReproductionTest(ctx, testChanges, deps)
+        : undefined;
+      if (reproductionTest && !reproductionTest.reproduces) {
+        record(1, startedAt, prompt, agentResult);
+        await notifyWithUsage(
+          `Aider's change does not add a test that reproduces the bug. ${outcomeNote}\n\n${reproductionTest.note}`
+        );
+        return {
+          success: false,
+          reason: "Aider did not add a test that reproduces the bug.",
+          failureOutput: reproductionTest.note,
+        };
+      }
+
+      // Aider can stop its loop with failing tests; verify independently before opening a PR
+      await params.onStage?.(stage, "verifying the fix");
+      // The new reproducing tests must pass along with the specific test
+      const verifyCtx = reproductionTest ? { ...ctx, testCommandSpecific: reproductionTest.command } : ctx;
+      const verification = await verifyFix(verifyCtx, deps, {
+        testReport: config.testReport,
+        baseline: params.baseline,
+        reruns: config.flakyReruns,
+      });
+      record(1, startedAt, prompt, agentResult, verification);
+      if (verification.passed) {
+        core.info("Aider successfully fixed the bug and passed all tests.");
+        return {
+          success: true,
+          prompt,
+          flaky: verification.flaky,
+          testChanges,
+          guardrailViolations: violations.length + testChanges.tampering.length,
+        };
+      }
+
+      await notifyWithUsage(
+        `Aider finished, but ${describeFailedVerification(verification.failed)}. ${outcomeNote}\n\n` +
+          "Test output:\n" +
+          `\n\n\`\`\`\n${truncate(verification.output, 8000)}\n\`\`\`\n`
+      );
+      return {
+        success: false,
+        reason: `Aider's fix failed verification (${verification.failed === "suite" ? "full test suite" : "specific test"}).`,
+        failureOutput: [
+          violationNote,
+          condenseTestOutput({ output: verification.output, repoRoot, report: verification.report }),
+        ]
+          .filter(Boolean)
+          .join("\n\n"),
+      };
+    }
+
+    record(1, startedAt, prompt, agentResult);
+    const output = (agentResult.stdout || "") + "\n" + (agentResult.stderr || "");
+    const failure = agentResult.timedOut
+      ? `timed out after ${formatDuration(timeoutMs)}`
+      : `failed to generate a working fix (exit code ${agentResult.exitCode})`;
+    await notifyWithUsage(
+      `Aider ${agentResult.timedOut ? failure : "failed to fix the bug"}. ${outcomeNote}\n\n` +
+        `${agentResult.timedOut ? "Output until the timeout" : "Full output"}:\n\n` +
+        `\`\`\`\n${truncate(output, 20000)}\n\`\`\``
+    );
+    return { success: false, reason: `Aider ${failure}.`, failureOutput: output, timedOut: agentResult.timedOut };
+  }
+
+  // Manual retry loop for Codex (or other agents without native test loop)
+  for (let attempt = 0; attempt < retryMax; attempt++) {
+    if (attempt > 0) {
+      const overBudget = checkBudget(params.sharedUsage?.() ?? usage, config);
+      if (overBudget) {
+        await notifyWithUsage(
+          `Stopping ${agentType} after ${attempt} attempt(s): ${overBudget}. No further retries; PR not opened.`
+        );
+        return {
+          success: false,
+          reason: `Budget exceeded after ${attempt} attempt(s): ${overBudget}.`,
+          failureOutput: previousTestFailure ?? "",
+          budgetExceeded: true,
+        };
+      }
+    }
+    const timeoutMs = attemptTimeout();
+    if (timeoutMs === undefined) return outOfTime(attempt);
+
+    if (attempt > 0) {
+      core.info(`\n=== RETRY ATTEMPT ${attempt + 1}/${retryMax} ===`);
+      // Reset changes from previous failed attempt
+      await exec("git checkout .", { silent: true, cwd: repoRoot });
+      await exec("git clean -fd", { silent: true, cwd: repoRoot });
+    }
+
+    await params.onStage?.(stage, `attempt ${attempt + 1}/${retryMax}`);
+    // Build the prompt for agent (with retry info if applicable)
+    const prompt = buildAgentPrompt({ ...promptParams, retryAttempt: attempt, previousTestFailure });
+    const startedAt = Date.now();
+
+    // Run agent - it will modify files directly
+    const agentResult = await agent.run({
+      prompt,
+      repoRoot,
+      workingDirectory: workingDirectory !== repoRoot ? workingDirectory : undefined,
+      openaiApiKey: config.openaiApiKey || undefined,
+      anthropicApiKey: config.anthropicApiKey || undefined,
+      model,
+      command: config.customAgentCommand || undefined,
+      timeoutMs,
+      sandbox: ctx.sandbox,
+    });
+
+    // The output was streamed to the log while the agent ran
+    core.info(`${agentType} exited with code ${agentResult.exitCode}.`);
+
+    const fullAgentOutput =
+      `Attempt: ${attempt + 1}/${retryMax}\n` +
+      `Agent: ${agentType}\n` +
+      `Model: ${model}\n` +
+      `Working directory: ${workingDirectory}\n` +
+      `Exit code: ${agentResult.exitCode}\n\n` +
+      `STDOUT:\n${agentResult.stdout || "(empty)"}\n\n` +
+      `STDERR:\n${agentResult.stderr || "(empty)"}`;
+
+    if (agentResult.exitCode !== 0) {
+      record(attempt + 1, startedAt, prompt, agentResult);
+      const failure = agentResult.timedOut
+        ? `timed out after ${formatDuration(timeoutMs)}`
+        : "failed to generate a fix";
+      await (attempt === retryMax - 1 ? notifyWithUsage : params.notify)(
+        `${agentType} ${failure} (attempt ${attempt + 1}/${retryMax}).\n\n` +
+          `${agentResult.timedOut ? "Output until the timeout" : `Full ${agentType} output`}:\n\n` +
+          `\`\`\`\n${fullAgentOutput}\n\`\`\``
+      );
+
+      if (attempt === retryMax - 1) {
+        return {
+          success: false,
+          reason: `${agentType} ${failure}.`,
+          failureOutput: fullAgentOutput,
+          timedOut: agentResult.timedOut,
+        };
+      }
+      core.warning(`${agentType} ${failure} (attempt ${attempt + 1}/${retryMax}), will retry...`);
+      previousTestFailure = truncate(fullAgentOutput, 10_000);
+      continue;
+    }
+
+    // Forbidden paths are reverted, or reject the attempt, before anything is verified
+    const violations = await enforcePathRules(repoRoot, config.pathRules, deps);
+    const violationNote = violations.length ? formatForbiddenChanges(violations, config.pathRules.action) : "";
+    const withViolationNote = (feedback: string) => (violationNote ? `${violationNote}\n\n${feedback}` : feedback);
+    if (violations.length && config.pathRules.action === "fail") {
+      record(attempt + 1, startedAt, prompt, agentResult);
+      if (attempt === retryMax - 1) {
+        await notifyWithUsage(
+          `${agentType} changed forbidden paths (attempt ${attempt + 1}/${retryMax}). ${outcomeNote}\n\n${violationNote}`
+        );
+        return { success: false, reason: `${agentType} changed forbidden paths.`, failureOutput: violationNote };
+      }
+      core.warning(`${agentType} changed forbidden paths (attempt ${attempt + 1}/${retryMax}), will retry...`);
+      previousTestFailure = violationNote;
+      continue;
+    }
+
+    // Check if agent made any changes
+    const status = (await exec("git status --porcelain", { silent: true, cwd: repoRoot })).stdout.trim();
+    if (!status) {
+      record(attempt + 1, startedAt, prompt, agentResult);
+      if (attempt === retryMax - 1) {
+        await notifyWithUsage(
+          `${agentType} analyzed the issue but made no file changes after ${retryMax} attempt(s). ${outcomeNote}`
+        );
+        return {
+          success: false,
+          reason: `${agentType} made no file changes after ${retryMax} attempt(s).`,
+          failureOutput: fullAgentOutput,
+        };
+      }
+      core.warning(`${agentType} made no changes (attempt ${attempt + 1}/${retryMax}), will retry...`);
+      previousTestFailure = withViolationNote(
+        `${agentType} did not make any file changes. Please analyze the issue more carefully and modify the appropriate files.`
+      );
+      continue;
+    }
+
+    core.info(`Files changed:\n${status}`);
+
+    // Oversized changes are rejected before the tests run
+    const exceeded = checkDiffLimits(await diffStat(repoRoot, deps), config.diffLimits);
+    if (exceeded.length) {
+      record(attempt + 1, startedAt, prompt, agentResult);
+      const limitNote = formatDiffLimitViolations(exceeded);
+      if (attempt === retryMax - 1) {
+        await notifyWithUsage(
+          `${agentType}'s change exceeds the size limits (attempt ${attempt + 1}/${retryMax}). ${outcomeNote}\n\n${limitNote}`
+        );
+        return { success: false, reason: `${agentType}'s change exceeds the size limits.`, failureOutput: limitNote };
+      }
+      core.warning(`${agentType}'s change exceeds the size limits (attempt ${attempt + 1}/${retryMax}), will retry...`);
+      previousTestFailure = withViolationNote(limitNote);
+      continue;
+    }
+
+    // The reproducing test the agent was asked to write may go into the existing test file
+    const testChanges = await inspectTestChanges(ctx, deps, { allowAddedTests: params.writeReproductionTest });
+    if (testChanges.tampering.length && !testTamperingAllowed) {
+      record(attempt + 1, startedAt, prompt, agentResult);
+      const tamperingNote = testTamperingNote(testChanges.tampering, params.writeReproductionTest);
+      if (attempt === retryMax - 1) {
+        await notifyWithUsage(
+          `${agentType}'s change weakens the tests (attempt ${attempt + 1}/${retryMax}). ${outcomeNote}\n\n` +
+            `${tamperingNote}\n\nAdd the '${config.testChangesLabel}' label to the issue to allow such changes.`
+        );
+        return { success: false, reason: `${agentType}'s change weakens the tests.`, failureOutput: tamperingNote };
+      }
+      core.warning(`${agentType}'s change weakens the tests (attempt ${attempt + 1}/${retryMax}), will retry...`);
+      previousTestFailure = withViolationNote(tamperingNote);
+      continue;
+    }
+    if (testChanges.tampering.length) allowedTamperingWarning();
+
+    // A test the agent wrote must reproduce the bug, i.e. fail without the fix
+    const reproductionTest = params.writeReproductionTest
+      ? await checkReproductionTest(ctx, testChanges, deps)
+      : undefined;
+    if (reproductionTest && !reproductionTest.reproduces) {
+      record(attempt + 1, startedAt, prompt, agentResult);
+      if (attempt === retryMax - 1) {
+        await notifyWithUsage(
+          `${agentType}'s change does not add a test that reproduces the bug (attempt ${attempt + 1}/${retryMax}). ` +
+            `${outcomeNote}\n\n${reproductionTest.note}`
+        );
+        return {
+          success: false,
+          reason: `${agentType} did not add a test that reproduces the bug.`,
+          failureOutput: reproductionTest.note,
+        };
+      }
+      core.warning(
+        `${agentType}'s change does not add a test that reproduces the bug (attempt ${attempt + 1}/${retryMax}), will retry...`
+      );
+      previousTestFailure = withViolationNote(reproductionTest.note);
+      continue;
+    }
+
+    await params.onStage?.(stage, `attempt ${attempt + 1}/${retryMax}: verifying the fix`);
+    // The new reproducing tests must pass along with the specific test
+    const verifyCtx = reproductionTest ? { ...ctx, testCommandSpecific: reproductionTest.command } : ctx;
+    const verification = await verifyFix(verifyCtx, deps, {
+      testReport: config.testReport,
+      baseline: params.baseline,
+      reruns: config.flakyReruns,
+    });
+    record(attempt + 1, startedAt, prompt, agentResult, verification);
+    if (!verification.passed) {
+      // Failing tests, assertions and repo stack frames, rather than the head of the log
+      const testOutput = condenseTestOutput({ output: verification.output, repoRoot, report: verification.report });
+      const what = describeFailedVerification(verification.failed);
+      if (attempt === retryMax - 1) {
+        await notifyWithUsage(
+          `${agentType} generated a fix, but ${what} after ${retryMax} attempt(s). ${outcomeNote}\n\n` +
+            "Test output:\n" +
+            `\n\n\`\`\`\n${truncate(verification.output, 8000)}\n\`\`\`\n`
+        );
+        return {
+          success: false,
+          reason: `${verification.failed === "suite" ? "Full test suite" : "Specific test"} failed after ${retryMax} attempt(s); PR not opened.`,
+          failureOutput: testOutput,
+        };
+      }
+      core.warning(
+        `${verification.failed === "suite" ? "Tests" : "Specific test"} failed (attempt ${attempt + 1}/${retryMax}), will retry with failure info...`
+      );
+      previousTestFailure = withViolationNote(testOutput);
+      continue;
+    }
+
+    // If we reach here, fix succeeded
+    return {
+      success: true,
+      prompt,
+      flaky: verification.flaky,
+      testChanges,
+      guardrailViolations: violations.length + testChanges.tampering.length,
+    };
+  }
+
+  return {
+    success: false,
+    reason: `Failed to generate a working fix after ${retryMax} attempts.`,
+    failureOutput: previousTestFailure ?? "",
+  };
+}
+
+export type AgentChainResult =
+  | {
+      success: true;
+      prompt: string;
+      agentType: AgentType;
+      model: string;
+      flaky: FlakyTest[];
+      testChanges: TestChanges;
+      // Ranked best first, when the fix was picked from several candidates
+      candidates?: CandidateSummary[];
+    }
+  | { success: false; reason: string; timedOut?: boolean };
+
+/**
+ * Tries each agent of the chain in order until one produces a verified fix.
+ * Every fallback agent starts from a clean tree and sees the failures of the agents before it.
+ */
+export async function runAgentChain(
+  params: {
+    ctx: FixContext;
+    config: FixConfig;
+    testFailureOutput?: string;
+    // The specific test passes before the fix; ask the agent to write one that reproduces the bug
+    writeReproductionTest?: boolean;
+    // Suite results before the fix
+    baseline?: TestResults;
+    // Epoch ms after which no new attempt starts
+    deadline?: number;
+    notify: (body: string) => Promise<void>;
+    onAttempt?: (attempt: AttemptReport) => void;
+    onStage?: (stage: string, phase?: string) => Promise<void>;
+  },
+  deps: Pick<PipelineDeps, "exec" | "getAgent">
+): Promise<AgentChainResult> {
+  const { ctx, config } = params;
+  const chain = config.agentChain;
+  const previousAgentFailures: string[] = [];
+  let lastFailureReason = "";
+  let lastTimedOut = false;
+  let usage = NO_USAGE;
+  let longestAttemptMs = 0;
+  const onAttempt = (attempt: AttemptReport) => {
+    usage = addUsage(usage, attempt.usage);
+    longestAttemptMs = Math.max(longestAttemptMs, attempt.durationMs);
+    params.onAttempt?.(attempt);
+  };
+
+  for (let i = 0; i < chain.length; i++) {
+    const entry = chain[i];
+
+    if (i > 0) {
+      const overBudget = checkBudget(usage, config);
+      if (overBudget) {
+        await params.notify(
+          `Not falling back to ${entry.type}: ${overBudget}. PR not opened.\n\n${formatUsage(usage)}`
+        );
+        return { success: false, reason: `Budget exceeded: ${overBudget}. Last failure: ${lastFailureReason}` };
+      }
+      core.info(`\n=== FALLING BACK TO ${entry.type.toUpperCase()} (${entry.model}) ===`);
+      // Start the next agent from a clean tree
+      await deps.exec("git checkout .", { silent: true, cwd: ctx.repoRoot });
+      await deps.exec("git clean -fd", { silent: true, cwd: ctx.repoRoot });
+    }
+
+    const agent = deps.getAgent(entry.type);
+    if (config.installAgents !== false) await agent.install(entry.version);
+
+    const result = await runAgentFix(
+      {
+        ctx,
+        config,
+        agent,
+        agentType: entry.type,
+        model: entry.model,
+        nextAgent: chain[i + 1]?.type,
+        testFailureOutput: params.testFailureOutput,
+        writeReproductionTest: params.writeReproductionTest,
+        baseline: params.baseline,
+        previousAgentFailures: previousAgentFailures.length ? [...previousAgentFailures] : undefined,
+        usage,
+        deadline: params.deadline,
+        longestAttemptMs,
+        notify: params.notify,
+        onAttempt,
+        onStage: params.onStage,
+      },
+      deps
+    );
+
+    if (result.success) {
+      return {
+        success: true,
+        prompt: result.prompt,
+        agentType: entry.type,
+        model: entry.model,
+        flaky: result.flaky,
+        testChanges: result.testChanges,
+      };
+    }
+
+    if (result.budgetExceeded) {
+      return { success: false, reason: result.reason, timedOut: result.timedOut };
+    }
+
+    lastFailureReason = result.reason;
+    lastTimedOut = result.timedOut === true;
+    previousAgentFailures.push(
+      `--- ${entry.type} (${entry.model}): ${result.reason} ---\n${truncate(result.failureOutput, 5_000)}`
+    );
+  }
+
+  return {
+    success: false,
+    reason:
+      chain.length > 1
+        ? `All agents failed to generate a working fix. Last failure: ${lastFailureReason}`
+        : lastFailureReason,
+    timedOut: lastTimedOut,
+  };
+}
@@ -0,0 +1,132 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  detectTestChanges,
+  findForbiddenChanges,
+  parseNumstat,
+  parsePorcelainStatus,
+  parseUnifiedDiff,
+  reproducingTestFiles,
+} from "../guardrails";
+import type { FileDiffStat, FilePatch, PathChange, PathRules, TestChanges } from "../guardrails";
+import { findSecrets } from "../secrets";
+import { shellEscape } from "../utils";
+import type { PipelineContext, PipelineDeps } from "./types";
+
+/**
+ * Checks the agent's uncommitted changes against the forbidden-path rules and, when the action is
+ * `revert`, restores the forbidden paths to HEAD (or deletes them when they are new).
+ * Returns the violating changes.
+ */
+export async function enforcePathRules(
+  repoRoot: string,
+  rules: PathRules,
+  deps: Pick<PipelineDeps, "exec">
+): Promise<PathChange[]> {
+  const { exec } = deps;
+  const status = await exec("git status --porcelain -z --untracked-files=all", { silent: true, cwd: repoRoot });
+  const violations = findForbiddenChanges(parsePorcelainStatus(status.stdout), rules);
+  if (!violations.length) return [];
+
+  const paths = violations.flatMap((v) => (v.origPath ? [v.origPath, v.path] : [v.path]));
+  core.warning(`The agent changed forbidden paths: ${paths.join(", ")}`);
+  if (rules.action !== "revert") return violations;
+
+  for (const p of paths) {
+    await exec(`git reset -q -- ${shellEscape(p)}`, { silent: true, cwd: repoRoot });
+    const inHead = await exec(`git cat-file -e ${shellEscape(`HEAD:${p}`)}`, { silent: true, cwd: repoRoot });
+    if (inHead.exitCode === 0) {
+      await exec(`git checkout HEAD -- ${shellEscape(p)}`, { silent: true, cwd: repoRoot });
+    } else {
+      fs.rmSync(path.join(repoRoot, p), { force: true });
+    }
+  }
+  core.info("Reverted the changes to forbidden paths.");
+  return violations;
+}
+
+/**
+ * Content of an untracked path as git would commit it: the target of a symlink, which may be missing
+ * or a directory, rather than what it points to. Undefined for anything else that is not a regular file.
+ */
+function untrackedContent(file: string): Buffer | undefined {
+  const stat = fs.lstatSync(file);
+  if (stat.isSymbolicLink()) return Buffer.from(fs.readlinkSync(file));
+  return stat.isFile() ? fs.readFileSync(file) : undefined;
+}
+
+/**
+ * Per-file line counts of the agent's uncommitted changes against HEAD, new untracked files included.
+ */
+export async function diffStat(repoRoot: string, deps: Pick<PipelineDeps, "exec">): Promise<FileDiffStat[]> {
+  const { exec } = deps;
+  const numstat = await exec("git diff --numstat --no-renames -z HEAD", { silent: true, cwd: repoRoot });
+  const deleted = await exec("git diff --name-only --no-renames --diff-filter=D -z HEAD", {
+    silent: true,
+    cwd: repoRoot,
+  });
+  const deletedPaths = new Set(deleted.stdout.split("\0").filter(Boolean));
+  const files = parseNumstat(numstat.stdout).map((f) => ({ ...f, deleted: deletedPaths.has(f.path) }));
+
+  const untracked = await exec("git ls-files --others --exclude-standard -z", { silent: true, cwd: repoRoot });
+  for (const p of untracked.stdout.split("\0").filter(Boolean)) {
+    const content = untrackedContent(path.join(repoRoot, p));
+    if (!content) continue;
+    // Binary files count zero lines, as in numstat
+    const text = content.includes(0) ? "" : content.toString("utf8");
+    const added = text ? text.split("\n").length - (text.endsWith("\n") ? 1 : 0) : 0;
+    files.push({ path: p, added, removed: 0, deleted: false });
+  }
+  return files;
+}
+
+/**
+ * The agent's uncommitted changes against HEAD as added and removed lines; new untracked files count as fully added.
+ */
+async function workingTreePatches(repoRoot: string, deps: Pick<PipelineDeps, "exec">): Promise<FilePatch[]> {
+  const { exec } = deps;
+  const diff = await exec("git -c core.quotePath=false diff --no-renames HEAD", { silent: true, cwd: repoRoot });
+  const patches = parseUnifiedDiff(diff.stdout);
+
+  const untracked = await exec("git ls-files --others --exclude-standard -z", { silent: true, cwd: repoRoot });
+  for (const p of untracked.stdout.split("\0").filter(Boolean)) {
+    const content = untrackedContent(path.join(repoRoot, p));
+    if (content) patches.push({ path: p, isNew: true, added: content.toString("utf8").split("\n"), removed: [] });
+  }
+  return patches;
+}
+
+/**
+ * Finds the test files the agent's uncommitted changes touch, and how they weaken the tests.
+ * See `detectTestChanges` for `allowAddedTests`.
+ */
+export async function inspectTestChanges(
+  ctx: Pick<PipelineContext, "repoRoot" | "workingDirectory" | "testCommandSpecific">,
+  deps: Pick<PipelineDeps, "exec">,
+  options: { allowAddedTests?: boolean } = {}
+): Promise<TestChanges> {
+  const { repoRoot } = ctx;
+  const patches = await workingTreePatches(repoRoot, deps);
+  const reproducing = reproducingTestFiles(ctx.testCommandSpecific, (arg) => {
+    const file = path.resolve(ctx.workingDirectory, arg);
+    const relative = path.relative(repoRoot, file);
+    if (relative.startsWith("..") || !fs.existsSync(file) || !fs.statSync(file).isFile()) return undefined;
+    return relative.split(path.sep).join("/");
+  });
+  return detectTestChanges(patches, reproducing, options);
+}
+
+/**
+ * Secrets that the agent's uncommitted changes add, by file. Lines the change removes are not scanned.
+ */
+export async function findIntroducedSecrets(
+  repoRoot: string,
+  deps: Pick<PipelineDeps, "exec">
+): Promise<{ path: string; kinds: string[] }[]> {
+  const patches = await workingTreePatches(repoRoot, deps);
+  return patches
+    .map((patch) => ({ path: patch.path, kinds: findSecrets(patch.added.join("\n")) }))
+    .filter((file) => file.kinds.length);
+}
@@ -0,0 +1,263 @@
+import * as core from "@actions/core";
+
+import { truncate } from "../lib";
+import { setupSandbox, teardownSandbox } from "../sandbox";
+import { registerSecret, withRedaction } from "../secrets";
+import type { Sandbox } from "../types";
+import { addUsage } from "../usage";
+import { shellEscape } from "../utils";
+import { captureBaseline } from "./baseline";
+import { deleteStaleBranches, findAutofixBranches, resumeBranch } from "./branches";
+import { runCandidates } from "./candidates";
+import { loadContext, resolveTrigger } from "./context";
+import { acquireIssueLock, releaseIssueLock } from "./lock";
+import type { IssueLock } from "./lock";
+import { checkoutWorkingBranch, runAgentChain } from "./fix";
+import { findIntroducedSecrets } from "./guardrails";
+import { createStatusReporter, formatAttemptDetail } from "./progress";
+import type { StatusReporter } from "./progress";
+import { collectChanges, publish } from "./publish";
+import { createRunReport, finishRunReport, recordAttempt, writeRunReport } from "./report";
+import type { RunReport } from "./report";
+import { gateReproduction, reproduce } from "./reproduce";
+import type { PipelineConfig, PipelineDeps, PipelineEvent, PipelineResult } from "./types";
+
+export { captureBaseline, runSuite } from "./baseline";
+export { autofixBranchPrefix, deleteStaleBranches, findAutofixBranches, resumeBranch } from "./branches";
+export type { AutofixBranch } from "./branches";
+export { runCandidates } from "./candidates";
+export { loadContext, resolveTrigger } from "./context";
+export { DEFAULT_LOCK_TIMEOUT_MS, acquireIssueLock, issueLockRef, releaseIssueLock } from "./lock";
+export type { IssueLock, LockHolder } from "./lock";
+export { checkoutWorkingBranch, resolveAgentChain, runAgentChain, runAgentFix } from "./fix";
+export type { AgentChainResult, AgentFixResult } from "./fix";
+export { buildAgentPrompt } from "./prompt";
+export { enforcePathRules, findIntroducedSecrets, inspectTestChanges } from "./guardrails";
+export { collectChanges, publish } from "./publish";
+export { createRunReport, finishRunReport, recordAttempt, verificationReport, writeRunReport } from "./report";
+export type { AttemptReport, RunReport } from "./report";
+export { STATUS_LABELS, createStatusReporter, formatAttemptDetail } from "./progress";
+export type { FinalStatus, StatusReporter } from "./progress";
+export {
+  checkReproductionTest,
+  formatNotReproducedComment,
+  gateReproduction,
+  reproduce,
+  reproductionTestCommand,
+} from "./reproduce";
+export type { ReproductionResult, ReproductionTestCheck } from "./reproduce";
+export { verifyFix } from "./verify";
+export type { VerifyResult } from "./verify";
+export type * from "./types";
+
+function isResult(value: object): value is PipelineResult {
+  return "outcome" in value;
+}
+
+/**
+ * Runs the whole fix pipeline for one event: trigger -> context -> reproduce -> fix -> verify -> publish.
+ * All side effects go through `deps`, so the pipeline can run against fakes.
+ * The run report is written to `config.reportPath` even when a stage throws.
+ * Everything posted to GitHub is redacted of the API keys and of common token formats.
+ * Progress is reported in a single comment that is edited as the run goes, next to a status label on the issue.
+ */
+export async function runPipeline(
+  event: PipelineEvent,
+  config: PipelineConfig,
+  pipelineDeps: PipelineDeps
+): Promise<PipelineResult> {
+  registerSecret(config.openaiApiKey);
+  registerSecret(config.anthropicApiKey);
+  const deps = { ...pipelineDeps, github: withRedaction(pipelineDeps.github) };
+  const report = createRunReport({
+    repository: `${deps.github.owner}/${deps.github.repo}`,
+    eventName: event.eventName,
+    agentChain: config.agentChain,
+  });
+
+  try {
+    const result = await runStages(event, config, deps, report);
+    finishRunReport(report, result);
+    return { ...result, report };
+  } catch (err) {
+    finishRunReport(report, { error: err });
+    throw err;
+  } finally {
+    if (config.reportPath) {
+      writeRunReport(config.reportPath, report);
+      core.info(`Run report written to ${config.reportPath}`);
+    }
+  }
+}
+
+async function runStages(
+  event: PipelineEvent,
+  config: PipelineConfig,
+  deps: PipelineDeps,
+  report: RunReport
+): Promise<PipelineResult> {
+  const trigger = await resolveTrigger(event, config, deps);
+  if (isResult(trigger)) return trigger;
+  report.issueNumber = trigger.issueNumber;
+
+  core.info(`Using agent chain: ${config.agentChain.map((a) => `${a.type} (${a.model})`).join(" -> ")}`);
+
+  let sandbox: Sandbox | undefined;
+  let lock: IssueLock | undefined;
+  let statusReporter: StatusReporter | undefined;
+  try {
+    const ctx = await loadContext(trigger, config, deps);
+    if (isResult(ctx)) return ctx;
+    report.baseBranch = ctx.baseBranch;
+
+    // One run per issue: a second trigger for the same issue stops here. The lock and the
+    // autofix branches live on origin, which the dry run leaves alone.
+    if (!config.dryRun) {
+      const locked = await acquireIssueLock(
+        { repoRoot: ctx.repoRoot, issueNumber: ctx.issueNumber, leaseMs: config.lockTimeoutMs },
+        deps
+      );
+      if ("holder" in locked) {
+        const run = locked.holder.runUrl ? ` (${locked.holder.runUrl})` : "";
+        await deps.github.createComment(
+          ctx.commentNumber,
+          `Another autofix run is already working on this issue${run}. Not starting a second one; ` +
+            `its lock expires at ${locked.holder.expiresAt}.`
+        );
+        return { outcome: "skipped", message: `Another run holds the lock of issue #${ctx.issueNumber}.` };
+      }
+      lock = locked.lock;
+    }
+
+    // An earlier run's PR or branch is continued, superseded or left alone, see `on-existing`
+    const branches = ctx.reviewPr || config.dryRun ? [] : await findAutofixBranches(ctx, deps);
+    const existing = branches[0];
+    if (existing && config.onExisting === "skip") {
+      const found = existing.pr
+        ? `an open autofix PR: ${existing.pr.url}`
+        : `an autofix branch: \`${existing.branch}\``;
+      await deps.github.createComment(
+        ctx.commentNumber,
+        `This issue already has ${found}. Not starting another fix (on-existing: skip).`
+      );
+      return { outcome: "skipped", message: `The issue already has ${found}.`, prUrl: existing.pr?.url };
+    }
+    const resumed = config.onExisting === "update" ? existing : undefined;
+    const status = await createStatusReporter({
+      github: deps.github,
+      issueNumber: ctx.issueNumber,
+      commentNumber: ctx.commentNumber,
+      labels: ctx.issueLabels,
+    });
+    statusReporter = status;
+    await deleteStaleBranches({ repoRoot: ctx.repoRoot, branches, keep: resumed?.branch }, deps);
+    if (config.isolation) {
+      sandbox = await setupSandbox(
+        { repoRoot: ctx.repoRoot, networkAllowlist: config.isolation.networkAllowlist },
+        deps.exec
+      );
+      ctx.sandbox = sandbox;
+    }
+
+    // Reproduce on the working branch, which starts at the resolved base branch
+    let branchName: string;
+    if (config.dryRun) {
+      await deps.exec(`git checkout ${shellEscape(ctx.baseBranch)}`, { cwd: ctx.repoRoot });
+      branchName = ctx.baseBranch;
+    } else {
+      branchName = await checkoutWorkingBranch(ctx, deps, resumed?.branch);
+    }
+    report.branch = branchName;
+    if (!ctx.reviewPr && ctx.testCommandSpecific.trim()) await status.stage("Reproducing the bug");
+    const reproduction = await reproduce(ctx, deps);
+    const gate = await gateReproduction({
+      ctx,
+      policy: config.reproductionPolicy,
+      reproduction,
+      notify: (body) => status.finish("not-reproducible", body),
+    });
+    if (gate) return gate;
+    if (config.testReport && ctx.testCommandSuite.trim()) await status.stage("Capturing the suite baseline");
+    const baseline = await captureBaseline(ctx, config.testReport, deps);
+    // The agent builds on the earlier fix
+    if (resumed) await resumeBranch(ctx, resumed.branch, deps);
+
+    // Several candidates run side by side and the best one is kept; otherwise the agents of the chain take turns
+    const fix = await ((config.candidates ?? 1) > 1 ? runCandidates : runAgentChain)(
+      {
+        ctx,
+        config,
+        testFailureOutput: reproduction.status === "reproduced" ? reproduction.failureOutput : undefined,
+        writeReproductionTest:
+          reproduction.status === "not-reproduced" && config.reproductionPolicy === "ask-agent-to-write-test",
+        baseline,
+        deadline: config.runTimeoutMs !== undefined ? Date.parse(report.startedAt) + config.runTimeoutMs : undefined,
+        notify: (body) => status.detail(body, true),
+        onAttempt: (attempt) => {
+          recordAttempt(report, attempt);
+          void status.detail(formatAttemptDetail(attempt));
+        },
+        onStage: (stage, phase) => status.stage(stage, phase),
+      },
+      deps
+    );
+    if (!fix.success) {
+      await status.finish("failed", `I couldn't produce a working fix, so no PR was opened.\n\n${fix.reason}`);
+      return { outcome: fix.timedOut ? "timed-out" : "failed", message: fix.reason };
+    }
+    report.agent = { type: fix.agentType, model: fix.model };
+
+    // A fix that adds a secret is never committed
+    const secrets = await findIntroducedSecrets(ctx.repoRoot, deps);
+    if (secrets.length) {
+      const found = secrets.map((file) => `- ${file.path}: ${file.kinds.join(", ")}`).join("\n");
+      await status.finish(
+        "failed",
+        `${fix.agentType}'s fix adds what look like secrets, so it was not committed. PR not opened.\n\n${found}`
+      );
+      return {
+        outcome: "failed",
+        message: `${fix.agentType}'s fix adds secrets to ${secrets.map((f) => f.path).join(", ")}.`,
+      };
+    }
+
+    // Get changed files and diff before committing
+    const changes = await collectChanges(ctx.repoRoot, deps.exec);
+    report.changedFiles = changes.changedFiles.map((file) => file.path);
+
+    await status.stage("Publishing");
+    return await publish(
+      {
+        ctx,
+        config,
+        branchName,
+        resumed,
+        agentType: fix.agentType,
+        prompt: fix.prompt,
+        flaky: fix.flaky,
+        testChanges: fix.testChanges,
+        candidates: fix.candidates,
+        changes,
+        usage: report.usage,
+        onUsage: (usage) => {
+          report.usage = addUsage(report.usage, usage);
+        },
+        notify: (body) => status.finish("pr-opened", body),
+      },
+      deps
+    );
+  } catch (err) {
+    try {
+      const msg = err instanceof Error ? err.message : String(err);
+      const body = `I couldn't complete the automated fix due to an unexpected error.\n\n\`\`\`\n${truncate(msg, 6000)}\n\`\`\`\n`;
+      if (statusReporter) await statusReporter.finish("failed", body);
+      else await deps.github.createComment(trigger.commentNumber, body);
+    } catch {
+      // If commenting fails, fall back to failing the action.
+    }
+    throw err;
+  } finally {
+    if (sandbox) await teardownSandbox(sandbox, deps.exec);
+    if (lock) await releaseIssueLock(config.repoRoot, lock, deps);
+  }
+}
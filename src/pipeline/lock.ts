@@ -0,0 +1,121 @@
+import * as core from "@actions/core";
+
+import { shellEscape } from "../utils";
+import { GIT_BOT_IDENTITY } from "./branches";
+import type { PipelineDeps } from "./types";
+
+export const DEFAULT_LOCK_TIMEOUT_MS = 60 * 60_000;
+
+export type IssueLock = {
+  ref: string;
+  // Commit the ref points at while this run holds the lock
+  sha: string;
+};
+
+// What the lock commit of another run says about it
+export type LockHolder = {
+  expiresAt: string;
+  runUrl?: string;
+};
+
+export function issueLockRef(issueNumber: number): string {
+  return `refs/autofix-locks/issue-${issueNumber}`;
+}
+
+function currentRunUrl(): string | undefined {
+  const { GITHUB_SERVER_URL, GITHUB_REPOSITORY, GITHUB_RUN_ID } = process.env;
+  if (!GITHUB_SERVER_URL || !GITHUB_REPOSITORY || !GITHUB_RUN_ID) return undefined;
+  return `${GITHUB_SERVER_URL}/${GITHUB_REPOSITORY}/actions/runs/${GITHUB_RUN_ID}`;
+}
+
+async function readLock(
+  repoRoot: string,
+  ref: string,
+  deps: Pick<PipelineDeps, "exec">
+): Promise<(LockHolder & { sha: string }) | undefined> {
+  const remote = await deps.exec(`git ls-remote origin ${shellEscape(ref)}`, { silent: true, cwd: repoRoot });
+  if (remote.exitCode !== 0) throw new Error(`Could not read the lock ${ref}: ${remote.stderr.trim()}`);
+  const sha = remote.stdout.split("\t")[0].trim();
+  if (!sha) return undefined;
+
+  await deps.exec(`git fetch --no-tags origin ${shellEscape(ref)}`, { silent: true, cwd: repoRoot });
+  const message = (await deps.exec(`git show -s --format=%B ${sha}`, { silent: true, cwd: repoRoot })).stdout;
+  return {
+    sha,
+    // A lock without a readable expiry counts as expired
+    expiresAt: /^Expires: (.+)$/m.exec(message)?.[1].trim() ?? new Date(0).toISOString(),
+    runUrl: /^Run: (.+)$/m.exec(message)?.[1].trim(),
+  };
+}
+
+/**
+ * Takes the lock of the issue: a ref on `origin` that only one run can create, pointing at a commit
+ * that records when its lease expires. A lock whose lease expired is taken over.
+ * Returns the holder instead when another run has the lock.
+ */
+export async function acquireIssueLock(
+  params: { repoRoot: string; issueNumber: number; leaseMs: number },
+  deps: Pick<PipelineDeps, "exec">
+): Promise<{ lock: IssueLock } | { holder: LockHolder }> {
+  const { repoRoot } = params;
+  const { exec } = deps;
+  const ref = issueLockRef(params.issueNumber);
+
+  const current = await readLock(repoRoot, ref, deps);
+  if (current && Date.parse(current.expiresAt) > Date.now()) {
+    return { holder: current };
+  }
+  if (current)
+    core.warning(`Taking over the lock of issue #${params.issueNumber}, which expired at ${current.expiresAt}.`);
+
+  const tree = (await exec("git hash-object -w -t tree /dev/null", { silent: true, cwd: repoRoot })).stdout.trim();
+  const runUrl = currentRunUrl();
+  const message =
+    `autofix lock for issue #${params.issueNumber}\n\n` +
+    `Expires: ${new Date(Date.now() + params.leaseMs).toISOString()}` +
+    (runUrl ? `\nRun: ${runUrl}` : "");
+  const commit = await exec(`git ${GIT_BOT_IDENTITY} commit-tree ${tree} -m ${shellEscape(message)}`, {
+    silent: true,
+    cwd: repoRoot,
+  });
+  if (commit.exitCode !== 0) throw new Error(`Could not create the lock commit: ${commit.stderr.trim()}`);
+  const sha = commit.stdout.trim();
+
+  // The push only succeeds if the ref is still missing, or still holds the expired lock
+  const lease = `${ref}:${current?.sha ?? ""}`;
+  const pushed = await exec(
+    `git push --force-with-lease=${shellEscape(lease)} origin ${shellEscape(`${sha}:${ref}`)}`,
+    {
+      silent: true,
+      cwd: repoRoot,
+    }
+  );
+  if (pushed.exitCode === 0) {
+    core.info(`Locked issue #${params.issueNumber} (${ref}).`);
+    return { lock: { ref, sha } };
+  }
+
+  // Another run was faster
+  const winner = await readLock(repoRoot, ref, deps);
+  if (!winner) throw new Error(`Could not take the lock ${ref}: ${pushed.stderr.trim()}`);
+  return { holder: winner };
+}
+
+/**
+ * Deletes the lock ref, unless another run took it over after the lease expired.
+ */
+export async function releaseIssueLock(
+  repoRoot: string,
+  lock: IssueLock,
+  deps: Pick<PipelineDeps, "exec">
+): Promise<void> {
+  const lease = `${lock.ref}:${lock.sha}`;
+  const res = await deps.exec(
+    `git push --force-with-lease=${shellEscape(lease)} origin ${shellEscape(`:${lock.ref}`)}`,
+    {
+      silent: true,
+      cwd: repoRoot,
+    }
+  );
+  if (res.exitCode !== 0) core.warning(`Could not release the lock ${lock.ref}: ${res.stderr.trim()}`);
+}
@@ -0,0 +1,183 @@
+import * as core from "@actions/core";
+
+import type { GitHubClient } from "../github";
+import { formatDuration, truncate } from "../lib";
+import { formatUsage } from "../usage";
+import type { AttemptReport } from "./report";
+
+/**
+ * Issue labels that show where the last run for the issue stands.
+ */
+export const STATUS_LABELS = {
+  inProgress: "autofix:in-progress",
+  prOpened: "autofix:pr-opened",
+  failed: "autofix:failed",
+  notReproducible: "autofix:not-reproducible",
+} as const;
+
+export type FinalStatus = "pr-opened" | "failed" | "not-reproducible";
+
+const FINAL_LABELS: Record<FinalStatus, string> = {
+  "pr-opened": STATUS_LABELS.prOpened,
+  failed: STATUS_LABELS.failed,
+  "not-reproducible": STATUS_LABELS.notReproducible,
+};
+
+// GitHub rejects comments over 65,536 characters
+const MAX_COMMENT_LENGTH = 65_000;
+const MAX_HEADLINE_LENGTH = 30_000;
+const MAX_DETAIL_LENGTH = 10_000;
+const REMOVED_DETAIL = "_Removed to keep this comment under GitHub's size limit._";
+
+type Step = {
+  title: string;
+  // Shown after the title while the step runs, e.g. "verifying the fix"
+  phase?: string;
+  status: "running" | "done" | "failed";
+  details: { summary: string; body: string }[];
+};
+
+const STATUS_ICONS: Record<Step["status"], string> = { running: "⏳", done: "✅", failed: "❌" };
+
+// Truncates, closing the code block and the collapsible sections that the cut left open
+function truncateMarkdown(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  let truncated = truncate(text, maxChars);
+  if ((truncated.match(/^```/gm)?.length ?? 0) % 2) truncated += "\n```";
+  const open = (truncated.match(/<details>/g)?.length ?? 0) - (truncated.match(/<\/details>/g)?.length ?? 0);
+  return truncated + "\n</details>".repeat(Math.max(0, open));
+}
+
+function renderProgress(headline: string, steps: Step[], removedDetails = 0): string {
+  let removed = removedDetails;
+  const blocks = steps.flatMap((step) => [
+    `${STATUS_ICONS[step.status]} **${step.title}**${step.status === "running" && step.phase ? `: ${step.phase}` : ""}`,
+    ...step.details.map((detail) => {
+      const body = removed-- > 0 ? REMOVED_DETAIL : truncateMarkdown(detail.body, MAX_DETAIL_LENGTH);
+      return `<details>\n<summary>${detail.summary}</summary>\n\n${body}\n</details>`;
+    }),
+  ]);
+  return [truncateMarkdown(headline, MAX_HEADLINE_LENGTH), "---", ...blocks].join("\n\n");
+}
+
+// Fits the progress into one comment by dropping the oldest details first
+function formatProgressComment(headline: string, steps: Step[]): string {
+  const detailCount = steps.reduce((n, step) => n + step.details.length, 0);
+  for (let removed = 0; removed <= detailCount; removed++) {
+    const body = renderProgress(headline, steps, removed);
+    if (body.length <= MAX_COMMENT_LENGTH) return body;
+  }
+  return truncate(renderProgress(headline, steps, detailCount), MAX_COMMENT_LENGTH);
+}
+
+/**
+ * One line for the outcome of an attempt, followed by its numbers.
+ */
+export function formatAttemptDetail(attempt: AttemptReport): string {
+  const outcome = attempt.timedOut
+    ? "timed out"
+    : attempt.exitCode !== 0
+      ? `exited with code ${attempt.exitCode}`
+      : !attempt.verification
+        ? "no change was verified"
+        : attempt.verification.passed
+          ? "the tests passed"
+          : attempt.verification.failed === "suite"
+            ? "the full test suite failed"
+            : "the specific test still failed";
+  const icon = attempt.verification?.passed ? "✅" : "❌";
+  const candidate = attempt.candidate ? `Candidate ${attempt.candidate}, ` : "";
+  return (
+    `${icon} ${candidate}${attempt.agent} attempt ${attempt.attempt}: ${outcome}\n` +
+    `Model: ${attempt.model}. Duration: ${formatDuration(attempt.durationMs)}. Exit code: ${attempt.exitCode}.\n` +
+    formatUsage(attempt.usage)
+  );
+}
+
+export type StatusReporter = {
+  // Starts a step, marking the running one as done; the same title again updates the phase and resumes the step
+  stage(title: string, phase?: string): Promise<void>;
+  // Adds collapsible details to the current step: the first line is the summary. `failed` marks the step as failed.
+  detail(body: string, failed?: boolean): Promise<void>;
+  // Ends the run: the message becomes the headline, and the status label replaces the in-progress one
+  finish(status: FinalStatus, message: string): Promise<void>;
+};
+
+/**
+ * Reports a run as a single comment that is edited in place, and as a status label on the issue.
+ * The in-progress label is added right away; the comment is posted with the first step.
+ * Updates are applied one at a time, in order; a failed update only logs a warning.
+ */
+export async function createStatusReporter(params: {
+  github: GitHubClient;
+  issueNumber: number;
+  // Issue or PR that receives the progress comment
+  commentNumber: number;
+  // Labels the issue had when the run started
+  labels?: string[];
+}): Promise<StatusReporter> {
+  const { github } = params;
+  const labels = new Set(params.labels ?? []);
+  const steps: Step[] = [];
+  let headline = "⏳ Working on a fix for this issue.";
+  let commentId: number | undefined;
+  let queue = Promise.resolve();
+
+  const enqueue = (what: string, update: () => Promise<void>): Promise<void> => {
+    queue = queue.then(update).catch((e) => {
+      core.warning(`Failed to update the ${what}: ${e instanceof Error ? e.message : String(e)}`);
+    });
+    return queue;
+  };
+  const publish = () =>
+    enqueue("progress comment", async () => {
+      const body = formatProgressComment(headline, steps);
+      if (commentId === undefined) commentId = await github.createComment(params.commentNumber, body);
+      else await github.updateComment(commentId, body);
+    });
+  const setLabel = (label: string) =>
+    enqueue("status label", async () => {
+      for (const other of Object.values(STATUS_LABELS)) {
+        if (other === label || !labels.has(other)) continue;
+        await github.removeLabel(params.issueNumber, other);
+        labels.delete(other);
+      }
+      if (!labels.has(label)) {
+        await github.addLabels(params.issueNumber, [label]);
+        labels.add(label);
+      }
+    });
+  const current = (): Step | undefined => steps[steps.length - 1];
+
+  await setLabel(STATUS_LABELS.inProgress);
+
+  return {
+    stage(title, phase) {
+      const step = current();
+      if (step?.status !== "done" && step?.title === title) {
+        step.phase = phase;
+        step.status = "running";
+      } else {
+        if (step?.status === "running") step.status = "done";
+        steps.push({ title, phase, status: "running", details: [] });
+      }
+      return publish();
+    },
+
+    detail(body, failed) {
+      const step = current() ?? steps[steps.push({ title: "Fix", status: "running", details: [] }) - 1];
+      const [summary, ...rest] = body.split("\n");
+      step.details.push({ summary, body: rest.join("\n").trim() });
+      if (failed) step.status = "failed";
+      return publish();
+    },
+
+    async finish(status, message) {
+      const step = current();
+      if (step?.status === "running") step.status = status === "pr-opened" ? "done" : "failed";
+      headline = message;
+      await publish();
+      await setLabel(FINAL_LABELS[status]);
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import type { AgentType } from "../agents";
+import type { PathRules } from "../guardrails";
+import type { AutofixCommand } from "../lib";
+
+export function buildAgentPrompt(params: {
+  issueTitle: string;
+  issueBody: string;
+  agentType: AgentType;
+  testFailureOutput?: string;
+  writeReproductionTest?: boolean;
+  retryAttempt?: number;
+  previousTestFailure?: string;
+  command?: AutofixCommand;
+  reviewFeedback?: string;
+  previousAgentFailures?: string[];
+  forbiddenPaths?: Pick<PathRules, "deny" | "allow">;
+}): string {
+  let prompt =
+    "You are fixing a bug in this codebase based on a GitHub bug report issue.\n\n" +
+    "The bug report structure is:\n" +
+    "- TEST CASE: describes preconditions, step-by-step actions, and expected result\n" +
+    "- BUG DESCRIPTION: explains expected vs actual behavior (the bug)\n\n" +
+    `ISSUE TITLE: ${params.issueTitle}\n\n` +
+    `ISSUE BODY:\n${params.issueBody}\n\n`;
+
+  if (params.testFailureOutput) {
+    prompt += "TEST FAILURE OUTPUT (from running the specific test before fix):\n" + `${params.testFailureOutput}\n\n`;
+  }
+
+  if (params.writeReproductionTest) {
+    prompt +=
+      "NOTE: The specific test from the bug report already passes before any fix, so it does not reproduce the bug. " +
+      "First write a test that reproduces the bug, in a new test file or as a new test case in an existing one: " +
+      "it must fail without your fix and pass with it. The file is run by passing its path to the specific test command. " +
+      "Then fix the bug.\n\n";
+  }
+
+  if (params.command?.kind === "retry") {
+    prompt +=
+      "NOTE: A maintainer requested a new fix attempt. A previous automated fix for this issue was not accepted, " +
+      "so consider a different approach than the most obvious one.\n\n";
+  }
+
+  if (params.command?.hint) {
+    prompt += "ADDITIONAL GUIDANCE FROM MAINTAINER:\n" + `${params.command.hint}\n\n`;
+  }
+
+  if (params.reviewFeedback) {
+    prompt +=
+      "CODE REVIEW FEEDBACK (a fix for this bug is already on the current branch, and a reviewer requested changes):\n" +
+      `${params.reviewFeedback}\n\n` +
+      "Address every review comment while keeping the original bug fixed.\n\n";
+  }
+
+  if (params.previousAgentFailures?.length) {
+    prompt +=
+      "IMPORTANT: Other agents already tried to fix this bug and failed. Their last failures were:\n\n" +
+      `${params.previousAgentFailures.join("\n\n")}\n\n` +
+      "Do not repeat their approaches.\n\n";
+  }
+
+  if (params.retryAttempt && params.retryAttempt > 0 && params.previousTestFailure) {
+    prompt +=
+      `IMPORTANT: This is retry attempt #${params.retryAttempt + 1}. The previous fix attempt failed the tests.\n` +
+      "PREVIOUS TEST FAILURE OUTPUT:\n" +
+      `${params.previousTestFailure}\n\n` +
+      "Please analyze why the previous fix was incorrect and provide a different solution.\n\n";
+  }
+
+  prompt +=
+    "YOUR TASK:\n" +
+    "1. Analyze the bug report and test failure output\n" +
+    "2. Find the root cause of the bug in the codebase\n" +
+    "3. Apply all necessary fixes so that the actual behavior fully matches the expected behavior. Ensure the solution is correct, efficient, and follows best practices\n" +
+    (params.forbiddenPaths?.deny.length
+      ? `4. Do NOT modify files matching: ${params.forbiddenPaths.deny.join(", ")}` +
+        (params.forbiddenPaths.allow.length ? ` (except ${params.forbiddenPaths.allow.join(", ")})` : "") +
+        "\n"
+      : "4. Do NOT modify lockfiles (package-lock.json, pnpm-lock.yaml, yarn.lock) or .github/workflows/*\n") +
+    "5. Do NOT add unnecessary changes - keep the fix focused and minimal\n\n" +
+    "IMPORTANT RESTRICTIONS:\n" +
+    (params.agentType === "aider" ? "" : "- Do NOT run any tests - the CI system will run them\n") +
+    "- Do NOT run git commands (no git add, git commit, git push) - the CI system handles all git operations\n" +
+    (params.writeReproductionTest
+      ? "- Do NOT weaken the tests: do not remove or change assertions or skip tests. " +
+        "Add the reproducing test without changing existing tests\n" +
+        "- ONLY modify the source files needed to fix the bug, and add the reproducing test"
+      : "- Do NOT weaken the tests: do not remove or change assertions, skip tests or edit the test that reproduces the bug\n" +
+        "- ONLY modify the source files needed to fix the bug");
+
+  return prompt;
+}
@@ -0,0 +1,229 @@
+import * as core from "@actions/core";
+import * as path from "path";
+import * as fs from "fs";
+
+import type { AgentType } from "../agents";
+import type { CandidateSummary } from "../candidates";
+import {
+  buildPRBody,
+  formatCandidatesNote,
+  formatFlakyNote,
+  formatTestChangesNote,
+  generatePRDescription,
+} from "../description";
+import { postCommentWithChunks } from "../github";
+import type { PullRequestData } from "../github";
+import type { TestChanges } from "../guardrails";
+import { truncate } from "../lib";
+import type { FlakyTest } from "../results";
+import type { ExecFn } from "../types";
+import { addUsage, formatUsage } from "../usage";
+import type { TokenUsage } from "../usage";
+import { shellEscape } from "../utils";
+import type { AutofixBranch } from "./branches";
+import type { PipelineConfig, PipelineContext, PipelineDeps, PipelineResult } from "./types";
+
+/**
+ * Collects the diff of the working tree against HEAD, new files included, and the content of the changed files.
+ */
+export async function collectChanges(
+  repoRoot: string,
+  exec: ExecFn
+): Promise<{ changedFiles: { path: string; content: string }[]; diff: string }> {
+  // New files only show up in `git diff` once they are in the index
+  await exec("git add -N .", { silent: true, cwd: repoRoot });
+  const changedFilesList = (await exec("git diff HEAD --name-only", { silent: true, cwd: repoRoot })).stdout
+    .trim()
+    .split("\n")
+    .filter(Boolean);
+  const diff = (await exec("git diff HEAD", { silent: true, cwd: repoRoot })).stdout;
+
+  // Read content of changed files
+  const changedFiles: { path: string; content: string }[] = [];
+  for (const filePath of changedFilesList) {
+    try {
+      const fullPath = path.join(repoRoot, filePath);
+      const content = fs.readFileSync(fullPath, "utf8");
+      changedFiles.push({ path: filePath, content: truncate(content, 20_000) });
+    } catch {
+      core.warning(`Could not read changed file: ${filePath}`);
+    }
+  }
+
+  return { changedFiles, diff };
+}
+
+function promptDetails(agentType: AgentType, prompt: string): string {
+  return (
+    `<details>\n<summary>Full prompt sent to ${agentType}</summary>\n\n` +
+    `\`\`\`\n${truncate(prompt, 60000)}\n\`\`\`\n</details>`
+  );
+}
+
+/**
+ * Commits the verified fix and pushes it: as a follow-up commit on the PR under review,
+ * or as a new branch with a PR that links back to the issue.
+ * A resumed autofix branch is force-pushed, as it was rebased, and keeps its open PR.
+ * The dry run leaves the fix uncommitted and only hands the PR to `github`.
+ */
+export async function publish(
+  params: {
+    ctx: PipelineContext;
+    config: Pick<PipelineConfig, "addDescription" | "descriptionModel" | "openaiApiKey" | "dryRun">;
+    branchName: string;
+    // Earlier autofix branch the fix was built on
+    resumed?: AutofixBranch;
+    agentType: AgentType;
+    prompt: string;
+    flaky?: FlakyTest[];
+    testChanges?: TestChanges;
+    // Ranked best first, when the fix was picked from several candidates
+    candidates?: CandidateSummary[];
+    // Collected by the caller before anything is committed
+    changes: Awaited<ReturnType<typeof collectChanges>>;
+    // Usage of the agents, reported in the final comment
+    usage?: TokenUsage;
+    // Called with the usage of the PR description request
+    onUsage?: (usage: TokenUsage) => void;
+    // Reports the outcome where the run was triggered: on the issue, or on the PR under review
+    notify: (body: string) => Promise<void>;
+  },
+  deps: Pick<PipelineDeps, "github" | "exec">
+): Promise<PipelineResult> {
+  const { ctx, config, branchName, agentType, prompt } = params;
+  const flakyNote = formatFlakyNote(params.flaky);
+  const testChangesNote = formatTestChangesNote(params.testChanges);
+  const candidatesNote = formatCandidatesNote(params.candidates);
+  const { github, exec } = deps;
+  const cwd = ctx.repoRoot;
+  const { changedFiles, diff } = params.changes;
+  let usage = params.usage;
+
+  if (config.dryRun) {
+    core.info("Dry run: the fix is left uncommitted in the working tree.");
+  } else {
+    core.info("Committing changes...");
+    await exec('git config user.name "github-actions[bot]"', { cwd });
+    await exec('git config user.email "41898282+github-actions[bot]@users.noreply.github.com"', { cwd });
+
+    await exec("git add -A", { cwd });
+    await exec(
+      `git commit -m ${shellEscape(ctx.reviewPr ? `Address review feedback for issue #${ctx.issueNumber}` : `Fix: issue #${ctx.issueNumber}`)}`,
+      { cwd }
+    );
+  }
+
+  if (ctx.reviewPr) {
+    core.info("Pushing follow-up commit...");
+    await exec(`git push origin ${shellEscape(branchName)}`, { cwd });
+    const sha = (await exec("git rev-parse --short HEAD", { silent: true, cwd })).stdout.trim();
+
+    await params.notify(
+      `I pushed ${sha} to address the review feedback.\n\n` +
+        (testChangesNote ? `${testChangesNote}\n\n` : "") +
+        (flakyNote ? `${flakyNote}\n\n` : "") +
+        (candidatesNote ? `${candidatesNote}\n\n` : "") +
+        (usage ? `${formatUsage(usage)}\n\n` : "") +
+        promptDetails(agentType, prompt)
+    );
+    return { outcome: "pr-updated", message: `Pushed ${sha} to PR #${ctx.reviewPr.number}.`, prUrl: ctx.reviewPr.url };
+  }
+
+  if (!config.dryRun) {
+    core.info("Pushing branch...");
+    await exec(
+      `git push ${params.resumed ? "--force-with-lease " : ""}--set-upstream origin ${shellEscape(branchName)}`,
+      { cwd }
+    );
+  }
+
+  const resumedPr = params.resumed?.pr;
+  if (resumedPr) {
+    const sha = (await exec("git rev-parse --short HEAD", { silent: true, cwd })).stdout.trim();
+    await postCommentWithChunks({
+      github,
+      issueNumber: resumedPr.number,
+      body:
+        `I pushed a new fix for #${ctx.issueNumber}, rebased onto ${ctx.baseBranch} (${sha}).\n\n` +
+        (testChangesNote ? `${testChangesNote}\n\n` : "") +
+        (flakyNote ? `${flakyNote}\n\n` : "") +
+        (candidatesNote ? `${candidatesNote}\n\n` : "") +
+        (usage ? `${formatUsage(usage)}\n\n` : "") +
+        promptDetails(agentType, prompt),
+    });
+    await params.notify(`I updated the open PR for this issue: ${resumedPr.url}`);
+    return { outcome: "pr-updated", message: `Pushed ${sha} to PR #${resumedPr.number}.`, prUrl: resumedPr.url };
+  }
+
+  // Generate PR description using OpenAI if enabled
+  let prBody = buildPRBody({
+    issueRef: `#${ctx.issueNumber}`,
+    agentType,
+    flaky: params.flaky,
+    testChanges: params.testChanges,
+    candidates: params.candidates,
+  });
+  if (config.addDescription && config.openaiApiKey.trim()) {
+    try {
+      const generatedDescription = await generatePRDescription({
+        issueTitle: ctx.issueTitle,
+        issueBody: ctx.issueBody,
+        changedFiles,
+        diff,
+        openaiApiKey: config.openaiApiKey,
+        model: config.descriptionModel,
+        onUsage: (descriptionUsage) => {
+          usage = usage && addUsage(usage, descriptionUsage);
+          params.onUsage?.(descriptionUsage);
+        },
+      });
+      if (generatedDescription) {
+        prBody = buildPRBody({
+          issueRef: `#${ctx.issueNumber}`,
+          agentType,
+          description: generatedDescription,
+          flaky: params.flaky,
+          testChanges: params.testChanges,
+          candidates: params.candidates,
+        });
+      }
+    } catch (e) {
+      core.warning(`Failed to generate PR description: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  } else if (config.addDescription && !config.openaiApiKey.trim()) {
+    core.warning("PR description generation requires OpenAI API key. Using default description.");
+  }
+
+  core.info("Creating PR...");
+  let pr: PullRequestData | undefined;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      pr = await github.createPullRequest({
+        title: `Fix: ${ctx.issueTitle}`.slice(0, 240),
+        head: branchName,
+        base: ctx.baseBranch,
+        body: prBody,
+      });
+      break;
+    } catch (e) {
+      if (attempt === 2) throw e;
+      core.warning(`PR creation failed (attempt ${attempt + 1}/3), retrying in 2s...`);
+      await new Promise((r) => setTimeout(r, 2000));
+    }
+  }
+
+  if (!pr) throw new Error("Failed to create PR after 3 attempts");
+
+  await params.notify(
+    `I opened a PR for this issue: ${pr.url}\n\n` +
+      (flakyNote ? `${flakyNote}\n\n` : "") +
+      (usage ? `${formatUsage(usage)}\n\n` : "") +
+      promptDetails(agentType, prompt)
+  );
+
+  return {
+    outcome: "pr-opened",
+    message: config.dryRun ? "Dry run: the PR was not opened." : `Opened PR #${pr.number}.`,
+    prUrl: pr.url,
+  };
+}
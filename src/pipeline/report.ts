@@ -0,0 +1,114 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import type { AgentType } from "../agents";
+import type { FlakyTest, TestResults } from "../results";
+import { redactSecrets } from "../secrets";
+import { addUsage, NO_USAGE } from "../usage";
+import type { TokenUsage } from "../usage";
+import type { PipelineOutcome, PipelineResult, ResolvedAgent } from "./types";
+import type { VerifyResult } from "./verify";
+
+export type AttemptReport = {
+  agent: AgentType;
+  model: string;
+  // 1-based attempt number for this agent
+  attempt: number;
+  // 1-based candidate number, when several candidates were generated
+  candidate?: number;
+  exitCode: number;
+  // The agent was killed by its timeout
+  timedOut?: boolean;
+  // Agent run and verification
+  durationMs: number;
+  // Undefined when the agent failed or made no changes, so nothing was verified
+  verification?: {
+    passed: boolean;
+    failed?: "specific" | "suite";
+    flaky: FlakyTest[];
+    // Per-test suite results, when a test report is configured
+    results?: TestResults;
+  };
+  usage: TokenUsage;
+};
+
+/**
+ * Machine-readable summary of a run, written to `report-path` for downstream steps and dashboards.
+ */
+export type RunReport = {
+  version: 1;
+  repository: string;
+  eventName: string;
+  issueNumber?: number;
+  baseBranch?: string;
+  branch?: string;
+  agentChain: { type: AgentType; model: string }[];
+  // Agent that produced the published fix
+  agent?: { type: AgentType; model: string };
+  attempts: AttemptReport[];
+  changedFiles: string[];
+  usage: TokenUsage;
+  outcome: PipelineOutcome | "error";
+  message: string;
+  prUrl?: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+};
+
+export function createRunReport(params: {
+  repository: string;
+  eventName: string;
+  agentChain: ResolvedAgent[];
+}): RunReport {
+  return {
+    version: 1,
+    repository: params.repository,
+    eventName: params.eventName,
+    agentChain: params.agentChain.map((a) => ({ type: a.type, model: a.model })),
+    attempts: [],
+    changedFiles: [],
+    usage: { ...NO_USAGE },
+    outcome: "skipped",
+    message: "",
+    startedAt: new Date().toISOString(),
+  };
+}
+
+export function recordAttempt(report: RunReport, attempt: AttemptReport): void {
+  report.attempts.push(attempt);
+  report.usage = addUsage(report.usage, attempt.usage);
+}
+
+export function verificationReport(verification: VerifyResult): AttemptReport["verification"] {
+  return verification.passed
+    ? { passed: true, flaky: verification.flaky, results: verification.results }
+    : { passed: false, failed: verification.failed, flaky: [], results: verification.results };
+}
+
+/**
+ * Records the final outcome, or the unexpected error that ended the run.
+ */
+export function finishRunReport(report: RunReport, result: PipelineResult | { error: unknown }): RunReport {
+  if ("error" in result) {
+    report.outcome = "error";
+    report.message = result.error instanceof Error ? result.error.message : String(result.error);
+  } else {
+    report.outcome = result.outcome;
+    report.message = result.message;
+    report.prUrl = result.prUrl;
+  }
+  report.finishedAt = new Date().toISOString();
+  report.durationMs = Date.parse(report.finishedAt) - Date.parse(report.startedAt);
+  return report;
+}
+
+export function writeRunReport(reportPath: string, report: RunReport): void {
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  const redacted = JSON.stringify(
+    report,
+    (_key, value) => (typeof value === "string" ? redactSecrets(value) : value),
+    2
+  );
+  fs.writeFileSync(reportPath, redacted + "\n", "utf8");
+}
@@ -0,0 +1,186 @@
+import * as core from "@actions/core";
+import * as path from "path";
+
+import { condenseTestOutput } from "../failures";
+import { reproducingTestFiles } from "../guardrails";
+import type { TestChanges } from "../guardrails";
+import { truncate } from "../lib";
+import type { ReproductionPolicy } from "../lib";
+import { scrubEnv } from "../secrets";
+import type { ExecResult } from "../types";
+import { shellEscape } from "../utils";
+import type { PipelineContext, PipelineDeps, PipelineResult } from "./types";
+
+export type ReproductionResult =
+  | { status: "reproduced"; failureOutput: string }
+  | { status: "not-reproduced"; output: string }
+  // No specific test to run, or addressing review feedback
+  | { status: "skipped" };
+
+/**
+ * Runs the specific test BEFORE generating the fix to capture its failure output for the prompt.
+ */
+export async function reproduce(
+  ctx: Pick<
+    PipelineContext,
+    "testCommandSpecific" | "workingDirectory" | "testTimeoutMs" | "sandbox" | "reviewPr" | "repoRoot"
+  >,
+  deps: Pick<PipelineDeps, "exec">
+): Promise<ReproductionResult> {
+  if (ctx.reviewPr) {
+    core.info("Addressing review feedback; skipping pre-fix test.");
+    return { status: "skipped" };
+  }
+
+  if (!ctx.testCommandSpecific.trim()) {
+    core.info("No specific test command provided; skipping pre-fix test.");
+    return { status: "skipped" };
+  }
+
+  core.info(`Running specific test to capture failure output: ${ctx.testCommandSpecific}`);
+  const preTestRes = await deps.exec(ctx.testCommandSpecific, {
+    silent: true,
+    cwd: ctx.workingDirectory,
+    timeoutMs: ctx.testTimeoutMs,
+    env: scrubEnv(process.env),
+    sandbox: ctx.sandbox,
+  });
+  const output = (preTestRes.stdout + "\n" + preTestRes.stderr).trim();
+  if (preTestRes.exitCode !== 0) {
+    core.info("Specific test failed (expected for bug). Including failure output in prompt context.");
+    return {
+      status: "reproduced",
+      failureOutput: condenseTestOutput({ output, repoRoot: ctx.repoRoot, maxChars: 15_000 }),
+    };
+  }
+
+  core.info("Specific test passed before fix - the bug is not reproduced.");
+  return { status: "not-reproduced", output };
+}
+
+export function formatNotReproducedComment(
+  ctx: Pick<PipelineContext, "testCommandSpecific" | "baseBranch">,
+  output: string
+): string {
+  return (
+    `I couldn't reproduce this bug on the base branch \`${ctx.baseBranch}\`: ` +
+    "the specific test passed before any fix was applied. PR not opened.\n\n" +
+    `Test command: \`${ctx.testCommandSpecific}\`\n\n` +
+    `\`\`\`\n${truncate(output || "(no output)", 4000)}\n\`\`\`\n\n` +
+    "Make sure the test exercises the bug, or set the action input `reproduction-policy` to `warn` " +
+    "or `ask-agent-to-write-test` to run the agent anyway."
+  );
+}
+
+/**
+ * Applies the reproduction policy when the specific test already passes before the fix.
+ * Under `fail`, reports why through `notify` and stops the run; returns undefined to continue.
+ */
+export async function gateReproduction(params: {
+  ctx: Pick<PipelineContext, "testCommandSpecific" | "baseBranch">;
+  policy: ReproductionPolicy;
+  reproduction: ReproductionResult;
+  notify: (body: string) => Promise<void>;
+}): Promise<PipelineResult | undefined> {
+  const { ctx, policy, reproduction } = params;
+  if (reproduction.status !== "not-reproduced") return undefined;
+
+  if (policy === "warn") {
+    core.warning("Specific test passed before fix; running the agent anyway (reproduction-policy: warn).");
+    return undefined;
+  }
+  if (policy === "ask-agent-to-write-test") {
+    core.info("Specific test passed before fix; asking the agent to write a reproducing test.");
+    return undefined;
+  }
+
+  await params.notify(formatNotReproducedComment(ctx, reproduction.output));
+  return {
+    outcome: "failed",
+    message: `Bug not reproduced: the specific test passed on ${ctx.baseBranch} before the fix.`,
+  };
+}
+
+export type ReproductionTestCheck =
+  // `command` runs the specific test together with the new tests, for verifying the fix
+  { reproduces: true; command: string } | { reproduces: false; note: string };
+
+/**
+ * The specific test command with the given test files appended as arguments, relative to the working directory.
+ * Files the command already names are not appended again.
+ */
+export function reproductionTestCommand(
+  ctx: Pick<PipelineContext, "testCommandSpecific" | "repoRoot" | "workingDirectory">,
+  files: string[]
+): string {
+  const named = reproducingTestFiles(ctx.testCommandSpecific, (arg) =>
+    path.relative(ctx.repoRoot, path.resolve(ctx.workingDirectory, arg)).split(path.sep).join("/")
+  );
+  const args = files
+    .filter((file) => !named.includes(file))
+    .map((file) =>
+      shellEscape(path.relative(ctx.workingDirectory, path.join(ctx.repoRoot, file)).split(path.sep).join("/"))
+    );
+  return [ctx.testCommandSpecific, ...args].join(" ");
+}
+
+/**
+ * Checks that the agent's change adds a test that reproduces the bug, for `ask-agent-to-write-test`:
+ * run with the specific test, the new or extended test files must fail on the base commit, with only the
+ * tests of the change applied. The working tree is left as the agent left it.
+ */
+export async function checkReproductionTest(
+  ctx: Pick<PipelineContext, "testCommandSpecific" | "repoRoot" | "workingDirectory" | "testTimeoutMs" | "sandbox">,
+  testChanges: Pick<TestChanges, "added">,
+  deps: Pick<PipelineDeps, "exec">
+): Promise<ReproductionTestCheck> {
+  const tests = testChanges.added;
+  if (!tests.length) {
+    return {
+      reproduces: false,
+      note:
+        "The change adds no test. The specific test passes without the fix, so it does not reproduce the bug: " +
+        "add a test, in a new test file or as new test cases in an existing one, that fails without the fix " +
+        "and passes with it.",
+    };
+  }
+
+  const { exec } = deps;
+  const git = { silent: true, cwd: ctx.repoRoot };
+  const command = reproductionTestCommand(ctx, tests);
+  // The whole change as a tree, to restore it afterwards
+  await exec("git add -A", git);
+  const tree = await exec("git write-tree", git);
+  if (tree.exitCode !== 0) throw new Error(`Could not save the change: ${tree.stderr.trim()}`);
+  const change = tree.stdout.trim();
+
+  core.info(`Running the new tests without the fix: ${command}`);
+  let res: ExecResult;
+  try {
+    await exec("git reset -q --hard HEAD", git);
+    await exec(`git checkout ${change} -- ${tests.map(shellEscape).join(" ")}`, git);
+    res = await exec(command, {
+      silent: true,
+      cwd: ctx.workingDirectory,
+      timeoutMs: ctx.testTimeoutMs,
+      env: scrubEnv(process.env),
+      sandbox: ctx.sandbox,
+    });
+  } finally {
+    await exec(`git read-tree -u --reset ${change}`, git);
+    await exec("git reset -q", git);
+  }
+
+  if (res.exitCode !== 0) {
+    core.info("The new tests fail without the fix - the bug is reproduced.");
+    return { reproduces: true, command };
+  }
+  const output = (res.stdout + "\n" + res.stderr).trim();
+  return {
+    reproduces: false,
+    note:
+      `The new tests (${tests.join(", ")}) pass without the fix, so they do not reproduce the bug. ` +
+      "Make them fail on the unfixed code.\n\n" +
+      `Test command: \`${command}\`\n\n\`\`\`\n${truncate(output || "(no output)", 4000)}\n\`\`\``,
+  };
+}
@@ -0,0 +1,114 @@
+import type { Agent, AgentType } from "../agents";
+import type { GitHubClient, PullRequestData } from "../github";
+import type { DiffLimits, PathRules } from "../guardrails";
+import type { AutofixCommand, OnExisting, ReproductionPolicy } from "../lib";
+import type { TestReportConfig } from "../results";
+import type { ExecFn, Sandbox } from "../types";
+import type { RunReport } from "./report";
+
+export type ResolvedAgent = {
+  type: AgentType;
+  model: string;
+  version: string;
+};
+
+export type PipelineConfig = {
+  agentChain: ResolvedAgent[];
+  openaiApiKey: string;
+  anthropicApiKey: string;
+  customAgentCommand: string;
+  requiredLabel: string;
+  baseBranchInput: string;
+  // Fallbacks for the test commands of the issue form
+  testCommandSpecific: string;
+  testCommandSuite: string;
+  // Per-test results of the suite, to tolerate failures that already happen on the base branch
+  testReport?: TestReportConfig;
+  repoRoot: string;
+  // Relative to repoRoot; empty for the repo root itself
+  workingDirectory: string;
+  retryMax: number;
+  // Re-runs of a failing verification command before its failure counts
+  flakyReruns: number;
+  reproductionPolicy: ReproductionPolicy;
+  // Continue on, start next to, or leave alone an open autofix PR or branch of the issue
+  onExisting: OnExisting;
+  // Budget of the run; once reached, no further attempts or fallback agents are started
+  maxCostUsd?: number;
+  maxTokens?: number;
+  // Limit for each agent run
+  agentTimeoutMs: number;
+  // Limit for each run of a test command; no limit when unset
+  testTimeoutMs?: number;
+  // Deadline for the whole run; no new attempt starts once the time left can't fit one
+  runTimeoutMs?: number;
+  // Lease of the per-issue lock; a crashed run's lock is taken over once it expires
+  lockTimeoutMs: number;
+  // Paths the agent must not change
+  pathRules: PathRules;
+  // Size and scope limits for the agent's diff
+  diffLimits: DiffLimits;
+  // Issue label that allows a fix to weaken the tests; empty to never allow it
+  testChangesLabel: string;
+  // Runs agents and test commands as an unprivileged user with an allowlisted network; off when unset
+  isolation?: { networkAllowlist: string[] };
+  // Independent fixes generated in parallel worktrees, of which the best one is published; 1 when unset
+  candidates?: number;
+  addDescription: boolean;
+  descriptionModel: string;
+  // Set to false to use agents that are already installed
+  installAgents?: boolean;
+  // Where to write the JSON run report; no report when unset
+  reportPath?: string;
+  // Local dry run: the fix is left uncommitted on the base branch, and nothing is pushed to origin
+  dryRun?: boolean;
+};
+
+export type PipelineEvent = {
+  eventName: string;
+  payload: { action?: string; [key: string]: unknown };
+};
+
+export type PipelineDeps = {
+  github: GitHubClient;
+  exec: ExecFn;
+  getAgent: (type: AgentType) => Agent;
+};
+
+/**
+ * What triggered the run: an issue event, an `/autofix` comment, or a change-requesting review.
+ */
+export type Trigger = {
+  issueNumber: number;
+  // Issue or PR that receives progress and failure comments
+  commentNumber: number;
+  command?: AutofixCommand;
+  reviewPr?: PullRequestData;
+  reviewFeedback?: string;
+};
+
+export type PipelineContext = Trigger & {
+  issueTitle: string;
+  // Issue body prepared for the prompt (user story stripped, referenced test case appended)
+  issueBody: string;
+  issueLabels?: string[];
+  testCommandSpecific: string;
+  testCommandSuite: string;
+  // Limit for each run of a test command
+  testTimeoutMs?: number;
+  // Set up by the isolation mode; agents and test commands run as its user
+  sandbox?: Sandbox;
+  baseBranch: string;
+  repoRoot: string;
+  workingDirectory: string;
+};
+
+export type PipelineOutcome = "skipped" | "failed" | "timed-out" | "pr-opened" | "pr-updated";
+
+export type PipelineResult = {
+  outcome: PipelineOutcome;
+  message: string;
+  prUrl?: string;
+  // Set by runPipeline
+  report?: RunReport;
+};
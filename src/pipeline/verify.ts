@@ -0,0 +1,200 @@
+import * as core from "@actions/core";
+
+import { failedTests, findNewFailures } from "../results";
+import type { FlakyTest, TestReportConfig, TestResults } from "../results";
+import { scrubEnv } from "../secrets";
+import type { ExecResult } from "../types";
+import { runSuite } from "./baseline";
+import type { PipelineContext, PipelineDeps } from "./types";
+
+export type VerifyResult =
+  | {
+      passed: true;
+      // Failures that went away on a re-run
+      flaky: FlakyTest[];
+      // Per-test results of the last suite run, when a test report is configured
+      results?: TestResults;
+    }
+  | {
+      passed: false;
+      // Which command failed
+      failed: "suite" | "specific";
+      // Full output of the failing command
+      output: string;
+      // JUnit XML report written by the suite, if any
+      report?: string;
+      results?: TestResults;
+    };
+
+export type VerifyOptions = {
+  testReport?: TestReportConfig;
+  baseline?: TestResults;
+  // How many times a failing command is re-run before its failure counts
+  reruns?: number;
+};
+
+function outputOf(res: ExecResult): string {
+  return (res.stdout + "\n" + res.stderr).trim();
+}
+
+/**
+ * Runs the specific test, re-running it on failure. It passes when any run passes.
+ */
+async function verifySpecific(
+  ctx: Pick<PipelineContext, "testCommandSpecific" | "workingDirectory" | "testTimeoutMs" | "sandbox">,
+  deps: Pick<PipelineDeps, "exec">,
+  reruns: number
+): Promise<{ passed: boolean; flaky: boolean; output: string }> {
+  const opts = {
+    silent: true,
+    cwd: ctx.workingDirectory,
+    timeoutMs: ctx.testTimeoutMs,
+    env: scrubEnv(process.env),
+    sandbox: ctx.sandbox,
+  };
+  let testRes = await deps.exec(ctx.testCommandSpecific, opts);
+  for (let rerun = 1; testRes.exitCode !== 0 && rerun <= reruns; rerun++) {
+    core.info(`Specific test failed; re-running to check for flakiness (${rerun}/${reruns})...`);
+    const rerunRes = await deps.exec(ctx.testCommandSpecific, opts);
+    if (rerunRes.exitCode === 0) {
+      return { passed: true, flaky: true, output: outputOf(testRes) };
+    }
+    testRes = rerunRes;
+  }
+  return { passed: testRes.exitCode === 0, flaky: false, output: outputOf(testRes) };
+}
+
+/**
+ * Runs the full test suite, re-running it on failure. With per-test results and a baseline,
+ * only new failures count, and a test is flaky when it fails in some runs but not in all of them.
+ * Without per-test results, the suite is flaky when a re-run passes.
+ */
+async function verifySuite(
+  ctx: Pick<PipelineContext, "testCommandSuite" | "workingDirectory" | "testTimeoutMs" | "sandbox">,
+  deps: Pick<PipelineDeps, "exec">,
+  options: VerifyOptions
+): Promise<{
+  passed: boolean;
+  flakyTests?: string[];
+  output: string;
+  report?: string;
+  results?: TestResults;
+  newFailures?: string[];
+}> {
+  const { baseline } = options;
+  const reruns = options.reruns ?? 0;
+
+  // New failures of a run; undefined when the run failed without readable per-test results
+  const newFailuresOf = (res: ExecResult & { results?: TestResults }): string[] | undefined => {
+    if (res.exitCode === 0) return [];
+    if (!baseline || !res.results || !Object.keys(res.results).length) return undefined;
+    return findNewFailures(baseline, res.results);
+  };
+
+  let testRes = await runSuite(ctx, options.testReport, deps);
+  const firstFailures = newFailuresOf(testRes);
+  if (firstFailures?.length === 0) {
+    if (testRes.exitCode !== 0) {
+      core.warning(
+        "Full test suite failed, but only with failures that already happened before the fix: " +
+          failedTests(testRes.results ?? {}).join(", ")
+      );
+      core.info("No new test failures - no regressions detected.");
+    } else {
+      core.info("Full test suite passed - no regressions detected.");
+    }
+    return { passed: true, output: outputOf(testRes), results: testRes.results };
+  }
+
+  // Failures that happened in every run so far
+  let persistent = firstFailures;
+  for (let rerun = 1; rerun <= reruns; rerun++) {
+    core.info(`Full test suite failed; re-running to check for flakiness (${rerun}/${reruns})...`);
+    testRes = await runSuite(ctx, options.testReport, deps);
+    const failures = newFailuresOf(testRes);
+    if (failures?.length === 0) {
+      return { passed: true, flakyTests: firstFailures ?? [], output: outputOf(testRes), results: testRes.results };
+    }
+    if (persistent && failures) {
+      persistent = persistent.filter((name) => failures.includes(name));
+      if (!persistent.length) {
+        // Every failure went away in at least one run
+        return { passed: true, flakyTests: firstFailures, output: outputOf(testRes), results: testRes.results };
+      }
+    }
+  }
+
+  return {
+    passed: false,
+    newFailures: persistent,
+    output: outputOf(testRes),
+    report: testRes.report,
+    results: testRes.results,
+  };
+}
+
+/**
+ * Verifies a fix: first the specific test, to check the bug is fixed, then the full test suite,
+ * to check for regressions. Both must pass. With a `baseline`, suite failures that already
+ * happened before the fix are tolerated. Failing commands are re-run `reruns` times, and failures
+ * that go away on a re-run are reported as flaky instead of failing the fix.
+ */
+export async function verifyFix(
+  ctx: Pick<
+    PipelineContext,
+    "testCommandSpecific" | "testCommandSuite" | "workingDirectory" | "testTimeoutMs" | "sandbox"
+  >,
+  deps: Pick<PipelineDeps, "exec">,
+  options: VerifyOptions = {}
+): Promise<VerifyResult> {
+  const { testCommandSpecific, testCommandSuite } = ctx;
+  const flaky: FlakyTest[] = [];
+  let results: TestResults | undefined;
+
+  if (!testCommandSpecific.trim() && !testCommandSuite.trim()) {
+    core.info("No test commands provided; proceeding to open PR.");
+    return { passed: true, flaky };
+  }
+
+  if (testCommandSpecific.trim()) {
+    core.info(`Running specific test to verify fix: ${testCommandSpecific}`);
+    const specific = await verifySpecific(ctx, deps, options.reruns ?? 0);
+    if (!specific.passed) {
+      return { passed: false, failed: "specific", output: specific.output };
+    }
+    if (specific.flaky) {
+      core.warning("Specific test is flaky: it failed, then passed on a re-run.");
+      flaky.push({ command: "specific", tests: [] });
+    }
+    core.info("Specific test passed - fix verified.");
+  }
+
+  if (testCommandSuite.trim()) {
+    core.info(`Running full test suite for regression check: ${testCommandSuite}`);
+    const suite = await verifySuite(ctx, deps, options);
+    if (!suite.passed) {
+      return {
+        passed: false,
+        failed: "suite",
+        output:
+          (suite.newFailures?.length
+            ? "New test failures compared to the baseline run before the fix:\n" +
+              suite.newFailures.map((name) => `- ${name}${suite.results?.[name] ? "" : " (did not run)"}`).join("\n") +
+              "\n\n"
+            : "") + suite.output,
+        report: suite.report,
+        results: suite.results,
+      };
+    }
+    if (suite.flakyTests) {
+      core.warning(
+        "Full test suite is flaky: it failed, then passed on a re-run" +
+          (suite.flakyTests.length ? `. Flaky tests: ${suite.flakyTests.join(", ")}` : ".")
+      );
+      flaky.push({ command: "suite", tests: suite.flakyTests });
+    }
+    results = suite.results;
+  }
+
+  return { passed: true, flaky, results };
+}
@@ -0,0 +1,139 @@
+export const TEST_REPORT_FORMATS = ["junit", "tap"] as const;
+
+export type TestReportFormat = (typeof TEST_REPORT_FORMATS)[number];
+
+export type TestReportConfig = {
+  format: TestReportFormat;
+  // JUnit XML file written by the suite, relative to the working directory; empty to parse stdout
+  path: string;
+};
+
+export type TestStatus = "passed" | "failed" | "skipped";
+
+// Status of each test of a suite run, by test name
+export type TestResults = Record<string, TestStatus>;
+
+// A verification command that failed, then passed on a re-run
+export type FlakyTest = {
+  command: "specific" | "suite";
+  // Individual flaky tests, when the suite has per-test results
+  tests: string[];
+};
+
+/**
+ * Parses the `test-report-format` input; returns undefined when no format is configured.
+ */
+export function parseTestReportFormat(input: string): TestReportFormat | undefined {
+  const value = input.trim().toLowerCase();
+  if (!value || value === "none") return undefined;
+  if (!(TEST_REPORT_FORMATS as readonly string[]).includes(value)) {
+    throw new Error(
+      `Invalid test-report-format '${input.trim()}'. Must be one of: none, ${TEST_REPORT_FORMATS.join(", ")}.`
+    );
+  }
+  return value as TestReportFormat;
+}
+
+export function decodeXmlEntities(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+export function parseXmlAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of raw.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[m[1]] = decodeXmlEntities(m[2] ?? m[3] ?? "");
+  }
+  return attrs;
+}
+
+function recordResult(results: TestResults, name: string, status: TestStatus): void {
+  // A failure wins over other results of the same name (e.g. retries or duplicate names)
+  if (results[name] === "failed") return;
+  results[name] = status;
+}
+
+/**
+ * Parses the `<testcase>` elements of a JUnit XML report. Tests are named `classname.name`.
+ */
+export function parseJUnitXml(xml: string): TestResults {
+  const results: TestResults = {};
+  const testcaseRe = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+
+  for (const m of xml.matchAll(testcaseRe)) {
+    const attrs = parseXmlAttributes(m[1]);
+    if (!attrs.name) continue;
+
+    const body = m[2] ?? "";
+    const status: TestStatus = /<(failure|error)\b/.test(body)
+      ? "failed"
+      : /<skipped\b/.test(body)
+        ? "skipped"
+        : "passed";
+    recordResult(results, attrs.classname ? `${attrs.classname}.${attrs.name}` : attrs.name, status);
+  }
+
+  return results;
+}
+
+/**
+ * Parses the test points (`ok` / `not ok` lines) of TAP output, including indented subtests.
+ * `# SKIP` and `# TODO` directives count as skipped.
+ */
+export function parseTap(output: string): TestResults {
+  const results: TestResults = {};
+  const lineRe = /^\s*(not ok|ok)(?:\s+\d+)?(?:\s+-)?(?:\s+(.*?))?\s*(?:#\s*(.*))?$/;
+
+  for (const line of output.split(/\r?\n/)) {
+    const m = line.match(lineRe);
+    if (!m) continue;
+
+    const name = (m[2] ?? "").trim();
+    if (!name) continue;
+
+    const directive = (m[3] ?? "").trim().toLowerCase();
+    const status: TestStatus =
+      directive.startsWith("skip") || directive.startsWith("todo") ? "skipped" : m[1] === "ok" ? "passed" : "failed";
+    recordResult(results, name, status);
+  }
+
+  return results;
+}
+
+/**
+ * Parses the results of a suite run: a JUnit XML report, or the TAP output of the command.
+ */
+export function parseTestResults(format: TestReportFormat, content: string): TestResults {
+  return format === "junit" ? parseJUnitXml(content) : parseTap(content);
+}
+
+export function failedTests(results: TestResults): string[] {
+  return Object.keys(results).filter((name) => results[name] === "failed");
+}
+
+/**
+ * Returns the tests that fail in `current` but did not fail in `baseline` (including tests new in `current`),
+ * then the tests that passed in `baseline` but are missing from `current`: a suite that crashed, or whose
+ * report was cut short, did not run them, so they count as failures.
+ */
+export function findNewFailures(baseline: TestResults, current: TestResults): string[] {
+  const missing = Object.keys(baseline).filter((name) => baseline[name] === "passed" && !(name in current));
+  return [...failedTests(current).filter((name) => baseline[name] !== "failed"), ...missing];
+}
+
+/**
+ * Formats flaky verification failures as a markdown list for comments and PR bodies.
+ */
+export function formatFlakyTests(flaky: FlakyTest[]): string {
+  return flaky
+    .map((f) => {
+      const what = f.command === "specific" ? "Specific test" : "Full test suite";
+      return f.tests.length ? `- ${what}: ${f.tests.map((t) => `\`${t}\``).join(", ")}` : `- ${what}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,180 @@
+import * as core from "@actions/core";
+import * as dns from "dns";
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+
+import type { ExecFn, Sandbox } from "./types";
+import { shellEscape } from "./utils";
+
+export const SANDBOX_USER = "autofix-sandbox";
+
+// Hosts the agents need: the model APIs and the package registries
+export const DEFAULT_NETWORK_ALLOWLIST = [
+  "api.openai.com",
+  "api.anthropic.com",
+  "registry.npmjs.org",
+  "pypi.org",
+  "files.pythonhosted.org",
+];
+
+const FIREWALL_CHAIN = "AUTOFIX_SANDBOX";
+
+// Shared temp directories, which are world-writable
+const SHARED_TEMP_DIRS = ["/tmp", "/var/tmp", "/dev/shm"];
+
+/**
+ * The IPv4 nameservers of a resolv.conf.
+ */
+export function parseNameservers(resolvConf: string): string[] {
+  const nameservers = resolvConf
+    .split("\n")
+    .map((line) => line.trim().split(/\s+/))
+    .filter(([keyword, address]) => keyword === "nameserver" && net.isIPv4(address ?? ""))
+    .map(([, address]) => address);
+  return [...new Set(nameservers)];
+}
+
+/**
+ * iptables commands that limit the sandbox user's outbound traffic to loopback, DNS on the given nameservers
+ * and the given addresses. IPv6 is rejected, since the allowlist is resolved to IPv4 addresses.
+ */
+export function firewallCommands(user: string, addresses: string[], nameservers: string[]): string[] {
+  const owner = `-m owner --uid-owner ${user}`;
+  return [
+    `iptables -N ${FIREWALL_CHAIN} 2>/dev/null || iptables -F ${FIREWALL_CHAIN}`,
+    `iptables -A ${FIREWALL_CHAIN} -o lo -j ACCEPT`,
+    ...nameservers.flatMap((nameserver) => [
+      `iptables -A ${FIREWALL_CHAIN} -d ${nameserver} -p udp --dport 53 -j ACCEPT`,
+      `iptables -A ${FIREWALL_CHAIN} -d ${nameserver} -p tcp --dport 53 -j ACCEPT`,
+    ]),
+    ...addresses.map((address) => `iptables -A ${FIREWALL_CHAIN} -d ${address} -j ACCEPT`),
+    `iptables -A ${FIREWALL_CHAIN} -j REJECT`,
+    `iptables -C OUTPUT ${owner} -j ${FIREWALL_CHAIN} 2>/dev/null || iptables -I OUTPUT ${owner} -j ${FIREWALL_CHAIN}`,
+    `ip6tables -C OUTPUT ${owner} -j REJECT 2>/dev/null || ip6tables -I OUTPUT ${owner} -j REJECT`,
+  ];
+}
+
+// Both users can change what the other creates; the default ACLs carry this to new files
+function writeAcl(user: string, runner: string): string {
+  return `u:${user}:rwX,u:${runner}:rwX,d:u:${user}:rwX,d:u:${runner}:rwX`;
+}
+
+/**
+ * setfacl commands that give the sandbox user write access to a working tree with the given top-level entries.
+ * `.git` is left out: hooks or config the user wrote there would run in the runner's own git commands.
+ * Symbolic links are not followed, so they cannot open up paths outside the tree.
+ */
+export function workingTreeAclCommands(user: string, runner: string, dir: string, entries: string[]): string[] {
+  const acl = writeAcl(user, runner);
+  return [
+    `setfacl -m ${acl} ${shellEscape(dir)}`,
+    ...entries
+      .filter((entry) => entry !== ".git")
+      .map((entry) => `setfacl -R -P -m ${acl} ${shellEscape(path.join(dir, entry))}`),
+  ];
+}
+
+async function sudo(exec: ExecFn, cmd: string): Promise<void> {
+  const res = await exec(`sudo -n sh -c ${shellEscape(cmd)}`, { silent: true });
+  if (res.exitCode !== 0) {
+    throw new Error(`Failed to set up the sandbox (${cmd}): ${(res.stderr || res.stdout).trim()}`);
+  }
+}
+
+/**
+ * Creates the sandbox user and gives it write access to the repository and its own home directory only,
+ * then restricts its network to the allowlist and the system's resolver. Needs passwordless sudo,
+ * as on GitHub-hosted runners.
+ */
+export async function setupSandbox(
+  params: { repoRoot: string; networkAllowlist: string[] },
+  exec: ExecFn
+): Promise<Sandbox> {
+  const user = SANDBOX_USER;
+  const runner = os.userInfo().username;
+  core.info(`Setting up the sandbox user '${user}'...`);
+
+  await sudo(
+    exec,
+    `id -u ${user} >/dev/null 2>&1 || useradd --system --no-create-home --shell /usr/sbin/nologin ${user}`
+  );
+
+  const home = fs.mkdtempSync(path.join(process.env.RUNNER_TEMP || os.tmpdir(), "autofix-sandbox-"));
+  fs.mkdirSync(path.join(home, "tmp"));
+  // Agents run git in a repository owned by the runner user
+  fs.writeFileSync(path.join(home, ".gitconfig"), "[safe]\n\tdirectory = *\n", "utf8");
+
+  const { repoRoot } = params;
+  for (const cmd of workingTreeAclCommands(user, runner, repoRoot, fs.readdirSync(repoRoot))) await sudo(exec, cmd);
+  await sudo(exec, `setfacl -R -m ${writeAcl(user, runner)} ${shellEscape(home)}`);
+  const parents = new Set<string>();
+  for (const dir of [repoRoot, home]) {
+    // The sandbox user needs to reach the directory through its parents
+    for (let parent = path.dirname(dir); parent !== path.dirname(parent); parent = path.dirname(parent)) {
+      parents.add(parent);
+    }
+  }
+  for (const parent of parents) await sudo(exec, `setfacl -m u:${user}:x ${shellEscape(parent)}`);
+  // Its own entry takes precedence over the write access everyone has, so the home's tmp is its only temp directory
+  const tempDirs = SHARED_TEMP_DIRS.filter((dir) => fs.existsSync(dir));
+  for (const dir of tempDirs) await sudo(exec, `setfacl -m u:${user}:rx ${shellEscape(dir)}`);
+
+  const addresses = new Set<string>();
+  for (const host of params.networkAllowlist) {
+    try {
+      for (const { address } of await dns.promises.lookup(host, { all: true, family: 4 })) addresses.add(address);
+    } catch (e) {
+      core.warning(
+        `Could not resolve ${host} for the network allowlist: ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+  }
+  let nameservers: string[] = [];
+  try {
+    nameservers = parseNameservers(fs.readFileSync("/etc/resolv.conf", "utf8"));
+  } catch (e) {
+    core.warning(`Could not read /etc/resolv.conf: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!nameservers.length) core.warning("No IPv4 nameserver found; DNS is blocked in the sandbox.");
+  for (const cmd of firewallCommands(user, [...addresses], nameservers)) await sudo(exec, cmd);
+
+  core.info(`Sandbox ready: network limited to ${params.networkAllowlist.join(", ")}.`);
+  return { user, home, aclTrees: [repoRoot], aclPaths: [...new Set([...parents, ...tempDirs])] };
+}
+
+/**
+ * Gives the sandbox user write access to another working tree, e.g. a git worktree of a candidate fix,
+ * like the repository in `setupSandbox`. The parents it is reached through are recorded for teardown.
+ */
+export async function grantSandboxAccess(sandbox: Sandbox, dir: string, exec: ExecFn): Promise<void> {
+  const { user } = sandbox;
+  const runner = os.userInfo().username;
+  for (const cmd of workingTreeAclCommands(user, runner, dir, fs.readdirSync(dir))) await sudo(exec, cmd);
+  // Read access, since the parents are usually in the repository, e.g. `.git`, which git reads
+  for (let parent = path.dirname(dir); parent !== path.dirname(parent); parent = path.dirname(parent)) {
+    if (sandbox.aclPaths.includes(parent) || sandbox.aclTrees.includes(parent)) break;
+    await sudo(exec, `setfacl -m u:${user}:rx ${shellEscape(parent)}`);
+    sandbox.aclPaths.push(parent);
+  }
+}
+
+/**
+ * Removes the firewall rules and the ACL entries of the sandbox user, and its home directory.
+ * The runner user's entries stay, so it can still change the files the sandbox user created.
+ */
+export async function teardownSandbox(sandbox: Sandbox, exec: ExecFn): Promise<void> {
+  const { user } = sandbox;
+  const owner = `-m owner --uid-owner ${user}`;
+  const commands = [
+    `iptables -D OUTPUT ${owner} -j ${FIREWALL_CHAIN}`,
+    `iptables -F ${FIREWALL_CHAIN}`,
+    `iptables -X ${FIREWALL_CHAIN}`,
+    `ip6tables -D OUTPUT ${owner} -j REJECT`,
+    ...sandbox.aclTrees.map((dir) => `setfacl -R -x u:${user},d:u:${user} ${shellEscape(dir)}`),
+    ...sandbox.aclPaths.map((p) => `setfacl -x u:${user} ${shellEscape(p)}`),
+    `rm -rf ${shellEscape(sandbox.home)}`,
+  ];
+  await exec(`sudo -n sh -c ${shellEscape(commands.join("; "))}`, { silent: true });
+}
@@ -0,0 +1,98 @@
+import * as core from "@actions/core";
+
+import type { GitHubClient } from "./github";
+
+const REDACTED = "***";
+
+// Token formats that should never reach a comment, a log or a commit
+export const SECRET_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: "OpenAI or Anthropic API key", pattern: /\bsk-[A-Za-z0-9_-]{20,}/g },
+  { name: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { name: "AWS access key ID", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "AWS secret access key", pattern: /(?<=aws_secret_access_key\s*[=:]\s*["']?)[A-Za-z0-9/+=]{40}/gi },
+  { name: "Slack token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  {
+    name: "private key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  },
+];
+
+// Credentials of the action itself; the `INPUT_*` variables hold the action inputs, API keys included
+const CREDENTIAL_VARIABLES = [
+  "OPENAI_API_KEY",
+  "ANTHROPIC_API_KEY",
+  "GITHUB_TOKEN",
+  "GH_TOKEN",
+  "ACTIONS_RUNTIME_TOKEN",
+  "ACTIONS_ID_TOKEN_REQUEST_TOKEN",
+  "ACTIONS_ID_TOKEN_REQUEST_URL",
+];
+
+// Values of the secrets this run was given, e.g. the API keys and the GitHub token
+const knownSecrets = new Set<string>();
+
+/**
+ * Adds a secret value to redact from everything the run posts or logs, and masks it in the Actions log.
+ * Values too short to be real secrets are ignored, as they would mask ordinary text.
+ */
+export function registerSecret(value: string | undefined): void {
+  const secret = value?.trim();
+  if (!secret || secret.length < 8) return;
+  knownSecrets.add(secret);
+  core.setSecret(secret);
+}
+
+export function redactSecrets(text: string): string {
+  let redacted = text;
+  for (const secret of knownSecrets) redacted = redacted.split(secret).join(REDACTED);
+  for (const { pattern } of SECRET_PATTERNS) redacted = redacted.replace(pattern, REDACTED);
+  return redacted;
+}
+
+/**
+ * The environment without the action's credentials, for test commands and as the base of an agent's environment.
+ */
+export function scrubEnv(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  return Object.fromEntries(
+    Object.entries(env).filter(
+      ([name, value]) =>
+        !CREDENTIAL_VARIABLES.includes(name) && !name.startsWith("INPUT_") && !knownSecrets.has(value?.trim() ?? "")
+    )
+  );
+}
+
+/**
+ * Names the kinds of secrets found in `text`; empty when there are none.
+ */
+export function findSecrets(text: string): string[] {
+  const found = SECRET_PATTERNS.filter(({ pattern }) => {
+    pattern.lastIndex = 0;
+    return pattern.test(text);
+  }).map(({ name }) => name);
+  if ([...knownSecrets].some((secret) => text.includes(secret))) found.unshift("secret passed to the action");
+  return found;
+}
+
+/**
+ * Wraps a client so that every comment, PR title and PR body it posts is redacted.
+ */
+export function withRedaction(client: GitHubClient): GitHubClient {
+  return {
+    owner: client.owner,
+    repo: client.repo,
+    getIssue: (...args) => client.getIssue(...args),
+    getDefaultBranch: () => client.getDefaultBranch(),
+    branchExists: (...args) => client.branchExists(...args),
+    getCollaboratorPermission: (...args) => client.getCollaboratorPermission(...args),
+    addCommentReaction: (...args) => client.addCommentReaction(...args),
+    getPullRequest: (...args) => client.getPullRequest(...args),
+    listOpenPullRequests: (...args) => client.listOpenPullRequests(...args),
+    listReviewComments: (...args) => client.listReviewComments(...args),
+    createComment: (issueNumber, body) => client.createComment(issueNumber, redactSecrets(body)),
+    updateComment: (commentId, body) => client.updateComment(commentId, redactSecrets(body)),
+    addLabels: (...args) => client.addLabels(...args),
+    removeLabel: (...args) => client.removeLabel(...args),
+    createPullRequest: (params) =>
+      client.createPullRequest({ ...params, title: redactSecrets(params.title), body: redactSecrets(params.body) }),
+  };
+}
@@ -2,4 +2,34 @@ export type ExecResult = {
   stdout: string;
   stderr: string;
   exitCode: number;
+  // Killed by its timeout; stdout and stderr hold the output up to that point
+  timedOut?: boolean;
 };
+
+/**
+ * A dedicated user that agents and test commands run as, see `setupSandbox`.
+ */
+export type Sandbox = {
+  user: string;
+  // Home and temp directory of the sandboxed processes
+  home: string;
+  // Paths with ACL entries for the user, recursively for `aclTrees`; removed on teardown
+  aclTrees: string[];
+  aclPaths: string[];
+};
+
+export type ExecOptions = {
+  silent?: boolean;
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  // No limit when unset
+  timeoutMs?: number;
+  // Written to stdin, which is closed afterwards
+  input?: string;
+  // Streams the output into a collapsible log group with this title
+  group?: string;
+  // Runs the command as the sandbox user
+  sandbox?: Sandbox;
+};
+
+export type ExecFn = (cmd: string, opts?: ExecOptions) => Promise<ExecResult>;
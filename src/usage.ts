@@ -0,0 +1,180 @@
+import type { AgentType } from "./agents";
+
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  // Undefined when the model's pricing is unknown
+  costUsd?: number;
+  // True when the tokens were estimated from text length rather than reported by the agent
+  estimated: boolean;
+};
+
+// USD per million tokens
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-codex": { input: 1.25, output: 10 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 },
+};
+
+/**
+ * Looks up the pricing of a model by the longest known prefix, ignoring provider prefixes such as `anthropic/`.
+ */
+export function lookupModelPricing(model: string): { input: number; output: number } | undefined {
+  const name = model
+    .trim()
+    .toLowerCase()
+    .replace(/^[\w-]+\//, "");
+  const match = Object.keys(MODEL_PRICING)
+    .filter((key) => name.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICING[match] : undefined;
+}
+
+/**
+ * Rough token count for text: about four characters per token for English and code.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function costOf(model: string, inputTokens: number, outputTokens: number): number | undefined {
+  const pricing = lookupModelPricing(model);
+  if (!pricing) return undefined;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Estimates the usage of an agent run from its prompt and output. Agents also read repository files,
+ * so this is a lower bound.
+ */
+export function estimateUsage(model: string, prompt: string, output: string): TokenUsage {
+  const inputTokens = estimateTokens(prompt);
+  const outputTokens = estimateTokens(output);
+  return { inputTokens, outputTokens, costUsd: costOf(model, inputTokens, outputTokens), estimated: true };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    costUsd: a.costUsd !== undefined && b.costUsd !== undefined ? a.costUsd + b.costUsd : undefined,
+    estimated: a.estimated || b.estimated,
+  };
+}
+
+export const NO_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0, costUsd: 0, estimated: false };
+
+/**
+ * Usage reported by the OpenAI API for a chat completion, or undefined when the response has none.
+ */
+export function usageFromCompletion(
+  model: string,
+  usage: { prompt_tokens: number; completion_tokens: number } | undefined | null
+): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    costUsd: costOf(model, usage.prompt_tokens, usage.completion_tokens),
+    estimated: false,
+  };
+}
+
+// "4.2k" -> 4200, "1,234" -> 1234
+function parseTokenCount(value: string): number {
+  const match = value.replace(/,/g, "").match(/^([\d.]+)([kKmM]?)$/);
+  if (!match) return NaN;
+  const scale = { "": 1, k: 1_000, m: 1_000_000 }[match[2].toLowerCase() as "" | "k" | "m"];
+  return Math.round(parseFloat(match[1]) * scale);
+}
+
+/**
+ * Parses the usage lines that agents print, or returns undefined when there are none.
+ *
+ * Aider prints one line per LLM call:
+ *   Tokens: 4.2k sent, 1.1k cache write, 312 received. Cost: $0.02 message, $0.05 session.
+ * Codex prints a running total without an input/output split, which is counted as input
+ * tokens, so its cost is a lower bound:
+ *   tokens used: 12,345
+ */
+export function parseAgentUsage(agentType: AgentType, model: string, output: string): TokenUsage | undefined {
+  if (agentType === "aider") {
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let costUsd: number | undefined = 0;
+    let found = false;
+    for (const line of output.split("\n")) {
+      const tokens = line.match(/Tokens:\s*([\d.,]+[kKmM]?) sent.*?([\d.,]+[kKmM]?) received/);
+      if (!tokens) continue;
+      const sent = parseTokenCount(tokens[1]);
+      const received = parseTokenCount(tokens[2]);
+      if (Number.isNaN(sent) || Number.isNaN(received)) continue;
+      found = true;
+      inputTokens += sent;
+      outputTokens += received;
+      const cost = line.match(/Cost:\s*\$([\d.]+) message/);
+      const messageCost = cost ? parseFloat(cost[1]) : costOf(model, sent, received);
+      costUsd = costUsd !== undefined && messageCost !== undefined ? costUsd + messageCost : undefined;
+    }
+    return found ? { inputTokens, outputTokens, costUsd, estimated: false } : undefined;
+  }
+
+  if (agentType === "codex") {
+    const totals = [...output.matchAll(/tokens used:?\s*([\d.,]+[kKmM]?)/gi)]
+      .map((m) => parseTokenCount(m[1]))
+      .filter((n) => !Number.isNaN(n));
+    if (!totals.length) return undefined;
+    const total = totals[totals.length - 1];
+    return { inputTokens: total, outputTokens: 0, costUsd: costOf(model, total, 0), estimated: false };
+  }
+
+  return undefined;
+}
+
+export type UsageBudget = {
+  maxCostUsd?: number;
+  maxTokens?: number;
+};
+
+/**
+ * Describes how the usage exceeds the budget, or returns undefined while it is within it.
+ * A cost limit cannot be enforced for models without known pricing.
+ */
+export function checkBudget(usage: TokenUsage, budget: UsageBudget): string | undefined {
+  const tokens = usage.inputTokens + usage.outputTokens;
+  if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+    return `the run used ${tokens.toLocaleString("en-US")} tokens, which reaches max-tokens (${budget.maxTokens.toLocaleString("en-US")})`;
+  }
+  if (budget.maxCostUsd !== undefined && usage.costUsd !== undefined && usage.costUsd >= budget.maxCostUsd) {
+    return `the run cost ${formatCost(usage.costUsd)}, which reaches max-cost-usd (${formatCost(budget.maxCostUsd)})`;
+  }
+  return undefined;
+}
+
+function formatCost(costUsd: number): string {
+  return `$${costUsd < 0.01 && costUsd > 0 ? costUsd.toFixed(4) : costUsd.toFixed(2)}`;
+}
+
+/**
+ * One-line summary of the usage for issue and PR comments.
+ */
+export function formatUsage(usage: TokenUsage): string {
+  const cost = usage.costUsd !== undefined ? formatCost(usage.costUsd) : "unknown (no pricing for the model)";
+  return (
+    `Token usage: ${usage.inputTokens.toLocaleString("en-US")} input, ` +
+    `${usage.outputTokens.toLocaleString("en-US")} output. Cost: ${cost}` +
+    (usage.estimated ? " (partly estimated from text length)." : ".")
+  );
+}
@@ -1,27 +1,207 @@
 import * as core from "@actions/core";
-import { execSync } from "child_process";
+import { spawn } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { ChildProcess } from "child_process";
 
-import type { ExecResult } from "./types";
+import { formatDuration } from "./lib";
+import { redactSecrets } from "./secrets";
+import type { ExecOptions, ExecResult, Sandbox } from "./types";
 
 export function shellEscape(arg: string): string {
   return `'${arg.replace(/'/g, "'\\''")}'`;
 }
 
-export function exec(cmd: string, opts?: { silent?: boolean; env?: NodeJS.ProcessEnv; cwd?: string }): ExecResult {
+// Like `git -c core.hooksPath=/dev/null -c core.fsmonitor=false`: the runner's git commands must not run hooks
+// or an fsmonitor command from the repository's config, which an agent can write
+function withoutGitHooks(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  const count = Number(env.GIT_CONFIG_COUNT) || 0;
+  return {
+    ...env,
+    GIT_CONFIG_COUNT: String(count + 2),
+    [`GIT_CONFIG_KEY_${count}`]: "core.hooksPath",
+    [`GIT_CONFIG_VALUE_${count}`]: "/dev/null",
+    [`GIT_CONFIG_KEY_${count + 1}`]: "core.fsmonitor",
+    [`GIT_CONFIG_VALUE_${count + 1}`]: "false",
+  };
+}
+
+/**
+ * Runs a shell command. Commands that are not sandboxed run git without the repository's hooks.
+ */
+export async function exec(cmd: string, opts?: ExecOptions): Promise<ExecResult> {
+  const res = await spawnAsync(
+    "sh",
+    ["-c", cmd],
+    opts?.sandbox ? opts : { ...opts, env: withoutGitHooks(opts?.env ?? process.env) }
+  );
+  if (!opts?.silent) core.info(redactSecrets(cmd));
+  return res;
+}
+
+function timeoutNote(timeoutMs: number | undefined): string {
+  return `[TIMED OUT${timeoutMs ? ` after ${formatDuration(timeoutMs)}` : ""}: the command was killed]`;
+}
+
+// Logs complete lines as they arrive, redacted; a trailing partial line waits for the rest of it
+function lineLogger(): { write: (chunk: string) => void; flush: () => void } {
+  let partial = "";
+  return {
+    write(chunk) {
+      const lines = (partial + chunk).split("\n");
+      partial = lines.pop() ?? "";
+      for (const line of lines) core.info(redactSecrets(line));
+    },
+    flush() {
+      if (partial) core.info(redactSecrets(partial));
+      partial = "";
+    },
+  };
+}
+
+/**
+ * Writes an agent's prompt to a file in a new directory, so that agents running side by side never share one.
+ * A sandboxed agent gets it in the sandbox home, which it can read. Remove it with `removePromptFile`.
+ */
+export function writePromptFile(prefix: string, prompt: string, sandbox?: Sandbox): string {
+  const dir = fs.mkdtempSync(path.join(sandbox?.home ?? os.tmpdir(), `${prefix}-`));
+  // mkdtemp's 0700 would mask out the sandbox user's ACL entry; the home is only open to the two users
+  if (sandbox) fs.chmodSync(dir, 0o755);
+  const file = path.join(dir, "prompt.txt");
+  fs.writeFileSync(file, prompt, "utf8");
+  return file;
+}
+
+export function removePromptFile(file: string): void {
   try {
-    const stdout = execSync(cmd, {
-      encoding: "utf8",
-      stdio: ["ignore", "pipe", "pipe"],
-      env: opts?.env ?? process.env,
-      cwd: opts?.cwd,
-    });
-    if (!opts?.silent) core.info(cmd);
-    return { stdout, stderr: "", exitCode: 0 };
-  } catch (err: unknown) {
-    const e = err as { stdout?: Buffer; stderr?: Buffer; message?: string; status?: number };
-    const stdout = e?.stdout?.toString?.() ?? "";
-    const stderr = e?.stderr?.toString?.() ?? e?.message ?? "";
-    if (!opts?.silent) core.info(cmd);
-    return { stdout, stderr, exitCode: e?.status ?? 1 };
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+  } catch {
+    // Ignore cleanup errors
   }
 }
+
+/**
+ * Wraps a command so it runs as the sandbox user. The environment travels through sudo's
+ * preserved environment rather than the command line, where `ps` would show secret values.
+ */
+export function sandboxCommand(
+  sandbox: Sandbox,
+  command: string,
+  args: string[],
+  env: NodeJS.ProcessEnv
+): { command: string; args: string[]; env: NodeJS.ProcessEnv } {
+  const preserved = Object.keys(env).filter((name) => !["PATH", "HOME", "TMPDIR"].includes(name));
+  return {
+    command: "sudo",
+    args: [
+      "-n",
+      "-u",
+      sandbox.user,
+      ...(preserved.length ? [`--preserve-env=${preserved.join(",")}`] : []),
+      "--",
+      "env",
+      // sudo replaces PATH with its secure_path
+      `PATH=${env.PATH ?? ""}`,
+      `HOME=${sandbox.home}`,
+      `TMPDIR=${path.join(sandbox.home, "tmp")}`,
+      command,
+      ...args,
+    ],
+    env,
+  };
+}
+
+// Signals the whole process group, so commands started by a shell are stopped too.
+// Sandboxed processes belong to another user; they are signalled through sudo. Only the group of
+// this child is signalled: other commands of the same sandbox user, e.g. other candidates, keep running.
+function killGroup(child: ChildProcess, signal: NodeJS.Signals, sandbox?: Sandbox): void {
+  if (child.pid === undefined) return;
+  if (sandbox) {
+    spawn("sudo", ["-n", "kill", `-${signal.replace(/^SIG/, "")}`, "--", `-${child.pid}`], { stdio: "ignore" }).on(
+      "error",
+      (err) => core.warning(`Could not stop the sandboxed command: ${err.message}`)
+    );
+    return;
+  }
+  try {
+    process.kill(-child.pid, signal);
+  } catch {
+    child.kill(signal);
+  }
+}
+
+/**
+ * Runs a process and collects its output. With `opts.group`, the output is also streamed line by line
+ * into a collapsible log group, so long-running agents show progress in the Actions log.
+ * A process killed by its timeout is reported as timed out, with the output it wrote until then.
+ */
+export function spawnAsync(command: string, args: string[], opts: ExecOptions = {}): Promise<ExecResult> {
+  const target = opts.sandbox
+    ? sandboxCommand(opts.sandbox, command, args, opts.env ?? process.env)
+    : { command, args, env: opts.env ?? process.env };
+  return new Promise((resolve) => {
+    const child = spawn(target.command, target.args, {
+      cwd: opts.cwd,
+      env: target.env,
+      stdio: [opts.input !== undefined ? "pipe" : "ignore", "pipe", "pipe"],
+      // Own process group, see killGroup
+      detached: true,
+    });
+
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    let done = false;
+    let killTimer: NodeJS.Timeout | undefined;
+    const outLog = lineLogger();
+    const errLog = lineLogger();
+    if (opts.group) core.startGroup(opts.group);
+
+    child.stdout?.setEncoding("utf8");
+    child.stderr?.setEncoding("utf8");
+    child.stdout?.on("data", (chunk: string) => {
+      stdout += chunk;
+      if (opts.group) outLog.write(chunk);
+    });
+    child.stderr?.on("data", (chunk: string) => {
+      stderr += chunk;
+      if (opts.group) errLog.write(chunk);
+    });
+    if (opts.input !== undefined) {
+      // The process may exit without reading its input
+      child.stdin?.on("error", () => {});
+      child.stdin?.end(opts.input);
+    }
+
+    const timer =
+      opts.timeoutMs !== undefined
+        ? setTimeout(() => {
+            timedOut = true;
+            killGroup(child, "SIGTERM", opts.sandbox);
+            killTimer = setTimeout(() => killGroup(child, "SIGKILL", opts.sandbox), 5000).unref();
+          }, opts.timeoutMs)
+        : undefined;
+
+    const finish = (exitCode: number, error?: Error) => {
+      if (done) return;
+      done = true;
+      if (timer) clearTimeout(timer);
+      // The group id may be reused once the process is gone
+      if (killTimer) clearTimeout(killTimer);
+      if (opts.group) {
+        outLog.flush();
+        errLog.flush();
+        core.endGroup();
+      }
+      if (error) stderr += stderr ? `\n${error.message}` : error.message;
+      if (timedOut) {
+        resolve({ stdout, stderr: `${stderr}\n${timeoutNote(opts.timeoutMs)}`, exitCode, timedOut: true });
+      } else {
+        resolve({ stdout, stderr, exitCode });
+      }
+    };
+    child.on("error", (err) => finish(1, err));
+    child.on("close", (code) => finish(code ?? 1));
+  });
+}
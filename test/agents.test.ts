@@ -1,7 +1,21 @@
 import test from "node:test";
 import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 
-import { getAgent, isValidAgentType, DEFAULT_CODEX_MODEL, DEFAULT_AIDER_MODEL } from "../src/agents";
+import {
+  getAgent,
+  isValidAgentType,
+  parseAgentChain,
+  runClaude,
+  runCodex,
+  runCustomAgent,
+  renderCustomAgentCommand,
+  DEFAULT_CODEX_MODEL,
+  DEFAULT_AIDER_MODEL,
+  DEFAULT_CLAUDE_MODEL,
+} from "../src/agents";
 
 test("isValidAgentType returns true for 'codex'", () => {
   assert.equal(isValidAgentType("codex"), true);
@@ -11,11 +25,20 @@ test("isValidAgentType returns true for 'aider'", () => {
   assert.equal(isValidAgentType("aider"), true);
 });
 
+test("isValidAgentType returns true for 'claude'", () => {
+  assert.equal(isValidAgentType("claude"), true);
+});
+
+test("isValidAgentType returns true for 'custom'", () => {
+  assert.equal(isValidAgentType("custom"), true);
+});
+
 test("isValidAgentType returns false for invalid agent types", () => {
   assert.equal(isValidAgentType("invalid"), false);
   assert.equal(isValidAgentType(""), false);
   assert.equal(isValidAgentType("CODEX"), false);
   assert.equal(isValidAgentType("AIDER"), false);
+  assert.equal(isValidAgentType("CLAUDE"), false);
 });
 
 test("getAgent returns codex agent for 'codex'", () => {
@@ -32,6 +55,20 @@ test("getAgent returns aider agent for 'aider'", () => {
   assert.equal(typeof agent.run, "function");
 });
 
+test("getAgent returns claude agent for 'claude'", () => {
+  const agent = getAgent("claude");
+  assert.equal(agent.name, "claude");
+  assert.equal(typeof agent.install, "function");
+  assert.equal(typeof agent.run, "function");
+});
+
+test("getAgent returns custom agent for 'custom'", () => {
+  const agent = getAgent("custom");
+  assert.equal(agent.name, "custom");
+  assert.equal(typeof agent.install, "function");
+  assert.equal(typeof agent.run, "function");
+});
+
 test("getAgent throws for invalid agent type", () => {
   assert.throws(
     () => {
@@ -50,6 +87,33 @@ test("DEFAULT_AIDER_MODEL is gpt-4o", () => {
   assert.equal(DEFAULT_AIDER_MODEL, "gpt-4o");
 });
 
+test("DEFAULT_CLAUDE_MODEL is claude-sonnet-4-5", () => {
+  assert.equal(DEFAULT_CLAUDE_MODEL, "claude-sonnet-4-5");
+});
+
+test("parseAgentChain parses a single agent", () => {
+  assert.deepEqual(parseAgentChain("aider"), [{ type: "aider" }]);
+});
+
+test("parseAgentChain parses an ordered fallback chain with per-entry models", () => {
+  assert.deepEqual(parseAgentChain(" aider:gpt-4o , codex,claude:claude-opus-4-1 "), [
+    { type: "aider", model: "gpt-4o" },
+    { type: "codex" },
+    { type: "claude", model: "claude-opus-4-1" },
+  ]);
+});
+
+test("parseAgentChain keeps everything after the first colon as the model", () => {
+  assert.deepEqual(parseAgentChain("aider:openrouter/anthropic/claude-3.5:beta"), [
+    { type: "aider", model: "openrouter/anthropic/claude-3.5:beta" },
+  ]);
+});
+
+test("parseAgentChain throws for invalid entries", () => {
+  assert.throws(() => parseAgentChain("aider,gpt"), { message: /Invalid agent type: gpt/ });
+  assert.throws(() => parseAgentChain(" , "), { message: /No agent configured/ });
+});
+
 // Test agent isolation - codex and aider are independent
 test("codex and aider agents are distinct objects", () => {
   const codex = getAgent("codex");
@@ -57,3 +121,186 @@ test("codex and aider agents are distinct objects", () => {
   assert.notEqual(codex, aider);
   assert.notEqual(codex.name, aider.name);
 });
+
+test("runClaude fails without an Anthropic API key", async () => {
+  const result = await runClaude({ prompt: "fix it", repoRoot: os.tmpdir(), model: DEFAULT_CLAUDE_MODEL });
+  assert.equal(result.exitCode, 1);
+  assert.match(result.stderr, /ANTHROPIC_API_KEY is required/);
+});
+
+test("runClaude drives the claude CLI headlessly with prompt, model and API key", async (t) => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "fake-claude-"));
+  const binDir = path.join(tmp, "bin");
+  const repoRoot = path.join(tmp, "repo");
+  fs.mkdirSync(binDir);
+  fs.mkdirSync(repoRoot);
+
+  // Fake CLI records its arguments, stdin and API key, then edits a file like a real agent would
+  fs.writeFileSync(
+    path.join(binDir, "claude"),
+    [
+      "#!/bin/sh",
+      'printf "%s\\n" "$@" > args.txt',
+      "cat > stdin.txt",
+      'printf "%s" "$ANTHROPIC_API_KEY" > key.txt',
+      "echo fixed > fix.txt",
+      "echo 'Applied fix.'",
+    ].join("\n"),
+    { mode: 0o755 }
+  );
+
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+  t.after(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  const result = await runClaude({
+    prompt: "Fix the null case in parser.ts",
+    repoRoot,
+    anthropicApiKey: " sk-ant-test ",
+    model: "claude-opus-4-1",
+  });
+
+  assert.equal(result.exitCode, 0);
+  assert.equal(result.stdout.trim(), "Applied fix.");
+  const args = fs.readFileSync(path.join(repoRoot, "args.txt"), "utf8").trim().split("\n");
+  assert.ok(args.includes("-p"));
+  assert.deepEqual(args.slice(args.indexOf("--model"), args.indexOf("--model") + 2), ["--model", "claude-opus-4-1"]);
+  assert.deepEqual(args.slice(args.indexOf("--permission-mode"), args.indexOf("--permission-mode") + 2), [
+    "--permission-mode",
+    "acceptEdits",
+  ]);
+  assert.equal(fs.readFileSync(path.join(repoRoot, "stdin.txt"), "utf8"), "Fix the null case in parser.ts");
+  assert.equal(fs.readFileSync(path.join(repoRoot, "key.txt"), "utf8"), "sk-ant-test");
+  assert.equal(fs.readFileSync(path.join(repoRoot, "fix.txt"), "utf8"), "fixed\n");
+});
+
+test("runClaude runs in the working directory when provided", async (t) => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "fake-claude-"));
+  const binDir = path.join(tmp, "bin");
+  const workingDirectory = path.join(tmp, "repo", "packages", "app");
+  fs.mkdirSync(binDir);
+  fs.mkdirSync(workingDirectory, { recursive: true });
+  fs.writeFileSync(path.join(binDir, "claude"), "#!/bin/sh\npwd\n", { mode: 0o755 });
+
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+  t.after(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  const result = await runClaude({
+    prompt: "fix it",
+    repoRoot: path.join(tmp, "repo"),
+    workingDirectory,
+    anthropicApiKey: "sk-ant-test",
+    model: DEFAULT_CLAUDE_MODEL,
+  });
+
+  assert.equal(result.exitCode, 0);
+  assert.equal(fs.realpathSync(result.stdout.trim()), fs.realpathSync(workingDirectory));
+});
+
+test("runCodex logs in under a temporary CODEX_HOME and removes it after the run", async (t) => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "fake-codex-"));
+  const binDir = path.join(tmp, "bin");
+  const repoRoot = path.join(tmp, "repo");
+  fs.mkdirSync(binDir);
+  fs.mkdirSync(repoRoot);
+
+  // Fake CLI stores the key on login, like the real one, and records where
+  fs.writeFileSync(
+    path.join(binDir, "codex"),
+    [
+      "#!/bin/sh",
+      'if [ "$1" = login ]; then cat > "$CODEX_HOME/auth.json"; printf "%s\\n%s" "$CODEX_HOME" "$HOME" > homes.txt; fi',
+      "echo done",
+    ].join("\n"),
+    { mode: 0o755 }
+  );
+
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+  t.after(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  const result = await runCodex({ prompt: "fix it", repoRoot, openaiApiKey: "sk-test", model: DEFAULT_CODEX_MODEL });
+
+  assert.equal(result.exitCode, 0);
+  const [codexHome, home] = fs.readFileSync(path.join(repoRoot, "homes.txt"), "utf8").split("\n");
+  assert.equal(home, codexHome);
+  assert.ok(!codexHome.startsWith(os.homedir()));
+  assert.ok(!fs.existsSync(codexHome));
+});
+
+test("renderCustomAgentCommand substitutes and shell-escapes placeholders", () => {
+  const cmd = renderCustomAgentCommand("my-agent --prompt {prompt_file} --model {model} --dir {cwd} {unknown}", {
+    promptFile: "/tmp/prompt.txt",
+    model: "it's-a-model",
+    cwd: "/repo dir",
+  });
+  assert.equal(cmd, "my-agent --prompt '/tmp/prompt.txt' --model 'it'\\''s-a-model' --dir '/repo dir' {unknown}");
+});
+
+test("runCustomAgent fails without a command", async () => {
+  const result = await runCustomAgent({ prompt: "fix it", repoRoot: os.tmpdir(), model: "" });
+  assert.equal(result.exitCode, 1);
+  assert.match(result.stderr, /custom-agent-command is required/);
+});
+
+test("runCustomAgent runs the command with prompt file, model and working directory", async (t) => {
+  const repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), "custom-agent-"));
+  t.after(() => fs.rmSync(repoRoot, { recursive: true, force: true }));
+
+  const result = await runCustomAgent({
+    prompt: "Fix the null case",
+    repoRoot,
+    model: "in-house-1",
+    openaiApiKey: "sk-test",
+    command: 'cp {prompt_file} prompt.txt && printf "%s|%s|%s" {model} "$OPENAI_API_KEY" "$(pwd)"',
+  });
+
+  assert.equal(result.exitCode, 0);
+  const [model, key, cwd] = result.stdout.split("|");
+  assert.equal(model, "in-house-1");
+  assert.equal(key, "sk-test");
+  assert.equal(fs.realpathSync(cwd), fs.realpathSync(repoRoot));
+  assert.equal(fs.readFileSync(path.join(repoRoot, "prompt.txt"), "utf8"), "Fix the null case");
+});
+
+test("runCustomAgent does not pass the action's inputs and tokens to the agent", async (t) => {
+  const original = { ...process.env };
+  process.env.GITHUB_TOKEN = "ghs-test-token";
+  process.env["INPUT_OPENAI-API-KEY"] = "sk-input-test";
+  t.after(() => {
+    delete process.env.GITHUB_TOKEN;
+    delete process.env["INPUT_OPENAI-API-KEY"];
+    Object.assign(process.env, original);
+  });
+
+  const result = await runCustomAgent({
+    prompt: "fix it",
+    repoRoot: os.tmpdir(),
+    model: "",
+    openaiApiKey: "sk-test",
+    command: 'printf "%s|%s|%s" "$GITHUB_TOKEN" "$(env | grep -c ^INPUT_)" "$OPENAI_API_KEY"',
+  });
+
+  assert.equal(result.stdout, "|0|sk-test");
+});
+
+test("runCustomAgent propagates a non-zero exit code", async () => {
+  const result = await runCustomAgent({
+    prompt: "fix it",
+    repoRoot: os.tmpdir(),
+    model: "",
+    command: "echo boom >&2; exit 3",
+  });
+  assert.equal(result.exitCode, 3);
+  assert.equal(result.stderr.trim(), "boom");
+});
@@ -0,0 +1,281 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { condenseTestOutput, formatFailureSummary, summarizeTestFailures } from "../src/failures";
+
+const REPO = "/home/runner/work/app";
+
+test("summarizeTestFailures parses Jest output", () => {
+  const output = `
+ FAIL  src/math.test.js
+  math
+    ✓ adds (2 ms)
+    ✕ divides (3 ms)
+
+  ● math › divides
+
+    expect(received).toBe(expected) // Object.is equality
+
+    Expected: 2
+    Received: 3
+
+       9 |   it("divides", () => {
+    > 10 |     expect(divide(6, 2)).toBe(2);
+         |                          ^
+      11 |   });
+
+      at Object.<anonymous> (src/math.test.js:10:26)
+      at Promise.then.completed (node_modules/jest-circus/build/utils.js:298:28)
+
+Test Suites: 1 failed, 1 total
+Tests:       1 failed, 1 passed, 2 total`;
+
+  assert.deepEqual(summarizeTestFailures(output, REPO), {
+    runner: "jest",
+    failures: [
+      {
+        name: "math › divides",
+        message: "expect(received).toBe(expected) // Object.is equality\n\nExpected: 2\nReceived: 3",
+        frames: ["src/math.test.js:10:26"],
+      },
+    ],
+  });
+});
+
+test("summarizeTestFailures parses Vitest output", () => {
+  const output = `
+⎯⎯⎯⎯⎯⎯⎯ Failed Tests 1 ⎯⎯⎯⎯⎯⎯⎯
+
+ FAIL  src/math.test.ts > math > divides
+AssertionError: expected 3 to be 2 // Object.is equality
+
+- Expected
++ Received
+
+ ❯ src/math.test.ts:10:26
+      8|
+      9|   it("divides", () => {
+     10|     expect(divide(6, 2)).toBe(2);
+
+⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯[1/1]⎯
+
+ Test Files  1 failed (1)`;
+
+  const summary = summarizeTestFailures(output, REPO);
+  assert.equal(summary?.runner, "vitest");
+  assert.deepEqual(summary?.failures, [
+    {
+      name: "src/math.test.ts > math > divides",
+      message: "AssertionError: expected 3 to be 2 // Object.is equality\n\n- Expected\n+ Received",
+      frames: ["src/math.test.ts:10:26"],
+    },
+  ]);
+});
+
+test("summarizeTestFailures parses node:test TAP output and skips parents of failing subtests", () => {
+  const output = `TAP version 13
+# Subtest: math
+    # Subtest: divides
+    not ok 1 - divides
+      ---
+      duration_ms: 0.6
+      location: '${REPO}/test/math.test.js:4:3'
+      failureType: 'testCodeFailure'
+      error: |-
+        Expected values to be strictly equal:
+        
+        3 !== 2
+        
+      code: 'ERR_ASSERTION'
+      name: 'AssertionError'
+      stack: |-
+        TestContext.<anonymous> (file://${REPO}/test/math.test.js:5:12)
+        Test.runInAsyncScope (node:async_hooks:206:9)
+      ...
+    1..1
+not ok 1 - math
+  ---
+  duration_ms: 1.2
+  location: '${REPO}/test/math.test.js:3:1'
+  failureType: 'subtestsFailed'
+  error: '1 subtest failed'
+  ...
+1..1`;
+
+  assert.deepEqual(summarizeTestFailures(output, REPO), {
+    runner: "node:test",
+    failures: [
+      {
+        name: "divides",
+        message: "Expected values to be strictly equal:\n\n3 !== 2",
+        frames: ["test/math.test.js:4:3", "test/math.test.js:5:12"],
+      },
+    ],
+  });
+});
+
+test("summarizeTestFailures parses node:test spec reporter output", () => {
+  const output = `✖ divides (0.8ms)
+  AssertionError [ERR_ASSERTION]: Expected values to be strictly equal:
+
+  3 !== 2
+
+      at TestContext.<anonymous> (file://${REPO}/test/math.test.js:5:12)
+      at Test.runInAsyncScope (node:async_hooks:206:9)
+ℹ tests 1`;
+
+  assert.deepEqual(summarizeTestFailures(output, REPO)?.failures, [
+    {
+      name: "divides",
+      message: "AssertionError [ERR_ASSERTION]: Expected values to be strictly equal:\n\n3 !== 2",
+      frames: ["test/math.test.js:5:12"],
+    },
+  ]);
+});
+
+test("summarizeTestFailures parses pytest output", () => {
+  const output = `============================= test session starts ==============================
+collected 2 items
+
+tests/test_math.py .F                                                    [100%]
+
+=================================== FAILURES ===================================
+_________________________________ test_divide __________________________________
+
+    def test_divide():
+>       assert divide(6, 2) == 2
+E       assert 3.0 == 2
+E        +  where 3.0 = divide(6, 2)
+
+tests/test_math.py:5: AssertionError
+=========================== short test summary info ============================
+FAILED tests/test_math.py::test_divide - assert 3.0 == 2
+========================= 1 failed, 1 passed in 0.03s ==========================`;
+
+  assert.deepEqual(summarizeTestFailures(output, REPO), {
+    runner: "pytest",
+    failures: [
+      {
+        name: "test_divide",
+        message: "assert 3.0 == 2\n+  where 3.0 = divide(6, 2)",
+        frames: ["tests/test_math.py:5"],
+      },
+    ],
+  });
+});
+
+test("summarizeTestFailures falls back to pytest's short summary", () => {
+  const output = "FAILED tests/test_math.py::test_divide - assert 3.0 == 2\n1 failed in 0.01s";
+  assert.deepEqual(summarizeTestFailures(output)?.failures, [
+    { name: "tests/test_math.py::test_divide", message: "assert 3.0 == 2", frames: [] },
+  ]);
+});
+
+test("summarizeTestFailures parses go test output", () => {
+  const output = `=== RUN   TestAdd
+--- PASS: TestAdd (0.00s)
+=== RUN   TestDivide
+    math_test.go:12: Divide(6, 2) = 3; want 2
+--- FAIL: TestDivide (0.00s)
+=== RUN   TestParse
+--- FAIL: TestParse (0.00s)
+    parse_test.go:20: unexpected error: bad input
+FAIL
+FAIL	example.com/math	0.002s`;
+
+  assert.deepEqual(summarizeTestFailures(output, REPO), {
+    runner: "go",
+    failures: [
+      { name: "TestDivide", message: "Divide(6, 2) = 3; want 2", frames: ["math_test.go:12"] },
+      { name: "TestParse", message: "unexpected error: bad input", frames: ["parse_test.go:20"] },
+    ],
+  });
+});
+
+test("summarizeTestFailures parses JUnit XML", () => {
+  const output = `<testsuite name="math">
+  <testcase classname="MathTest" name="adds"/>
+  <testcase classname="MathTest" name="divides">
+    <failure message="expected:&lt;2&gt; but was:&lt;3&gt;">org.opentest4j.AssertionFailedError: expected:&lt;2&gt; but was:&lt;3&gt;
+	at MathTest.divides(MathTest.java:12)
+	at ${REPO}/src/test/MathTest.java:12:1
+</failure>
+  </testcase>
+</testsuite>`;
+
+  assert.deepEqual(summarizeTestFailures(output, REPO), {
+    runner: "junit",
+    failures: [
+      {
+        name: "MathTest.divides",
+        message: "expected:<2> but was:<3>\norg.opentest4j.AssertionFailedError: expected:<2> but was:<3>",
+        frames: ["src/test/MathTest.java:12:1"],
+      },
+    ],
+  });
+});
+
+test("summarizeTestFailures parses Playwright output", () => {
+  const output = `Running 2 tests using 1 worker
+
+  1) [chromium] › tests/example.spec.ts:3:5 › has title ────────────────────────────
+
+    Error: Timed out 5000ms waiting for expect(locator).toHaveTitle(expected)
+
+    Expected pattern: /Playwright/
+    Received string:  "Fast and reliable"
+
+      4 |   await page.goto("/");
+    > 5 |   await expect(page).toHaveTitle(/Playwright/);
+        |                      ^
+
+        at ${REPO}/tests/example.spec.ts:5:22
+
+  1 failed
+    [chromium] › tests/example.spec.ts:3:5 › has title`;
+
+  assert.deepEqual(summarizeTestFailures(output, REPO), {
+    runner: "playwright",
+    failures: [
+      {
+        name: "[chromium] › tests/example.spec.ts:3:5 › has title",
+        message:
+          "Error: Timed out 5000ms waiting for expect(locator).toHaveTitle(expected)\n\n" +
+          'Expected pattern: /Playwright/\nReceived string:  "Fast and reliable"',
+        frames: ["tests/example.spec.ts:5:22"],
+      },
+    ],
+  });
+});
+
+test("summarizeTestFailures returns undefined for unrecognized output", () => {
+  assert.equal(summarizeTestFailures("make: *** [test] Error 1"), undefined);
+});
+
+test("formatFailureSummary lists each failure with its message and frames", () => {
+  const formatted = formatFailureSummary({
+    runner: "go",
+    failures: [{ name: "TestDivide", message: "want 2", frames: ["math_test.go:12"] }],
+  });
+  assert.equal(
+    formatted,
+    "FAILING TESTS (1, parsed from go output):\n\n1. TestDivide\n   want 2\n   at math_test.go:12"
+  );
+});
+
+test("condenseTestOutput keeps the failure summary when the log is long", () => {
+  const output =
+    "--- FAIL: TestDivide (0.00s)\n    math_test.go:12: want 2\n" + "noise\n".repeat(5000) + "FAIL\texample.com/math";
+  const condensed = condenseTestOutput({ output, maxChars: 4000 });
+
+  assert.ok(condensed.length <= 4000);
+  assert.match(condensed, /^FAILING TESTS \(1, parsed from go output\):\n\n1\. TestDivide\n {3}want 2/);
+  assert.match(condensed, /FAIL\texample\.com\/math$/);
+});
+
+test("condenseTestOutput truncates unrecognized output", () => {
+  assert.equal(
+    condenseTestOutput({ output: "x".repeat(20), maxChars: 10 }),
+    "x".repeat(10) + "\n[TRUNCATED: 10 chars]"
+  );
+});
@@ -0,0 +1,188 @@
+import { execSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import type { Agent, AgentParams, AgentType } from "../src/agents";
+import type { GitHubClient, IssueData, PullRequestData } from "../src/github";
+import { DEFAULT_FORBIDDEN_PATHS } from "../src/guardrails";
+import type { ReviewComment } from "../src/lib";
+import type { PipelineConfig, PipelineDeps } from "../src/pipeline";
+import type { ExecResult } from "../src/types";
+import { exec } from "../src/utils";
+
+/**
+ * In-memory GitHub client that records comments, reactions and pull requests.
+ */
+export class FakeGitHub implements GitHubClient {
+  readonly owner = "acme";
+  readonly repo = "widgets";
+  issues = new Map<number, IssueData>();
+  pullRequests: (PullRequestData & { title: string; body: string; closed?: boolean })[] = [];
+  comments: { id: number; issueNumber: number; body: string }[] = [];
+  // Bodies of every update of each comment, by comment id
+  commentEdits = new Map<number, string[]>();
+  labels: { issueNumber: number; labels: string[] }[] = [];
+  removedLabels: { issueNumber: number; label: string }[] = [];
+  reactions: number[] = [];
+  branches = new Set(["main"]);
+  permissions = new Map<string, string>();
+  reviewComments: ReviewComment[] = [];
+  defaultBranch = "main";
+
+  async getIssue(issueNumber: number): Promise<IssueData> {
+    const issue = this.issues.get(issueNumber);
+    if (!issue) throw new Error(`Issue #${issueNumber} not found`);
+    return issue;
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    return this.defaultBranch;
+  }
+
+  async branchExists(branch: string): Promise<boolean> {
+    return this.branches.has(branch);
+  }
+
+  async getCollaboratorPermission(username: string): Promise<string> {
+    return this.permissions.get(username) ?? "none";
+  }
+
+  async addCommentReaction(commentId: number): Promise<void> {
+    this.reactions.push(commentId);
+  }
+
+  async getPullRequest(prNumber: number): Promise<PullRequestData> {
+    const pr = this.pullRequests.find((p) => p.number === prNumber);
+    if (!pr) throw new Error(`PR #${prNumber} not found`);
+    return pr;
+  }
+
+  async listOpenPullRequests(headPrefix: string): Promise<PullRequestData[]> {
+    return this.pullRequests.filter((p) => !p.closed && p.headRef.startsWith(headPrefix));
+  }
+
+  async listReviewComments(): Promise<ReviewComment[]> {
+    return this.reviewComments;
+  }
+
+  async createComment(issueNumber: number, body: string): Promise<number> {
+    const id = 1000 + this.comments.length;
+    this.comments.push({ id, issueNumber, body });
+    return id;
+  }
+
+  async updateComment(commentId: number, body: string): Promise<void> {
+    const comment = this.comments.find((c) => c.id === commentId);
+    if (!comment) throw new Error(`Comment ${commentId} not found`);
+    comment.body = body;
+    this.commentEdits.set(commentId, [...(this.commentEdits.get(commentId) ?? []), body]);
+  }
+
+  async addLabels(issueNumber: number, labels: string[]): Promise<void> {
+    this.labels.push({ issueNumber, labels });
+  }
+
+  async removeLabel(issueNumber: number, label: string): Promise<void> {
+    this.removedLabels.push({ issueNumber, label });
+  }
+
+  async createPullRequest(params: { title: string; head: string; base: string; body: string }) {
+    const pr = {
+      number: 100 + this.pullRequests.length,
+      headRef: params.head,
+      baseRef: params.base,
+      url: `https://github.com/acme/widgets/pull/${100 + this.pullRequests.length}`,
+      title: params.title,
+      body: params.body,
+    };
+    this.pullRequests.push(pr);
+    return pr;
+  }
+}
+
+/**
+ * Agent that records its prompts and runs `step` for each call, with the call index.
+ */
+export function createFakeAgent(
+  name: AgentType,
+  step: (params: AgentParams, call: number) => ExecResult | void
+): Agent & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    name,
+    prompts,
+    async install() {},
+    async run(params) {
+      prompts.push(params.prompt);
+      return step(params, prompts.length - 1) ?? { stdout: "done", stderr: "", exitCode: 0 };
+    },
+  };
+}
+
+/**
+ * Creates a git repository with a bare `origin` remote. The specific test passes once `app.txt` says "fixed".
+ */
+export function createTempRepo(): { repoRoot: string; origin: string } {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "autofix-pipeline-"));
+  const origin = path.join(tmp, "origin.git");
+  const repoRoot = path.join(tmp, "repo");
+  fs.mkdirSync(repoRoot);
+
+  execSync(`git init -q --bare -b main ${origin}`);
+  const git = (cmd: string) => execSync(`git ${cmd}`, { cwd: repoRoot, stdio: "pipe" });
+  git("init -q -b main");
+  git("config user.name test");
+  git("config user.email test@example.com");
+  fs.writeFileSync(path.join(repoRoot, "app.txt"), "broken\n");
+  git("add -A");
+  git("commit -qm initial");
+  git(`remote add origin ${origin}`);
+  git("push -q -u origin main");
+
+  return { repoRoot, origin };
+}
+
+export function fixApp(params: AgentParams): void {
+  fs.writeFileSync(path.join(params.repoRoot, "app.txt"), "fixed\n");
+}
+
+export function pipelineConfig(repoRoot: string, overrides: Partial<PipelineConfig> = {}): PipelineConfig {
+  return {
+    agentChain: [{ type: "codex", model: "test-model", version: "" }],
+    openaiApiKey: "",
+    anthropicApiKey: "",
+    customAgentCommand: "",
+    requiredLabel: "autofix",
+    baseBranchInput: "",
+    testCommandSpecific: 'grep -q fixed app.txt || { echo "app.txt is not fixed"; exit 1; }',
+    testCommandSuite: "",
+    repoRoot,
+    workingDirectory: "",
+    retryMax: 3,
+    flakyReruns: 0,
+    reproductionPolicy: "fail",
+    onExisting: "update",
+    agentTimeoutMs: 600_000,
+    lockTimeoutMs: 3_600_000,
+    pathRules: { deny: DEFAULT_FORBIDDEN_PATHS, allow: [], action: "revert" },
+    diffLimits: { allowTestDeletion: false },
+    testChangesLabel: "autofix-allow-test-changes",
+    addDescription: false,
+    descriptionModel: "gpt-4o",
+    installAgents: false,
+    ...overrides,
+  };
+}
+
+export function pipelineDeps(github: FakeGitHub, agents: Partial<Record<AgentType, Agent>>): PipelineDeps {
+  return {
+    github,
+    exec,
+    getAgent: (type) => {
+      const agent = agents[type];
+      if (!agent) throw new Error(`No fake agent for ${type}`);
+      return agent;
+    },
+  };
+}
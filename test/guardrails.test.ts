@@ -0,0 +1,176 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  checkDiffLimits,
+  DEFAULT_FORBIDDEN_PATHS,
+  detectTestChanges,
+  findForbiddenChanges,
+  formatForbiddenChanges,
+  globToRegExp,
+  parseForbiddenPathAction,
+  parseGlobList,
+  parseNumstat,
+  parsePorcelainStatus,
+  parseUnifiedDiff,
+  reproducingTestFiles,
+} from "../src/guardrails";
+
+test("globToRegExp matches globs without a slash at any depth", () => {
+  assert.ok(globToRegExp("package-lock.json").test("package-lock.json"));
+  assert.ok(globToRegExp("package-lock.json").test("web/package-lock.json"));
+  assert.ok(globToRegExp("*.pem").test("certs/server.pem"));
+  assert.ok(!globToRegExp("*.pem").test("server.pem.txt"));
+});
+
+test("globToRegExp anchors globs with a slash to the repository root", () => {
+  assert.ok(globToRegExp(".github/workflows/**").test(".github/workflows/ci.yml"));
+  assert.ok(!globToRegExp(".github/workflows/**").test("docs/.github/workflows/ci.yml"));
+  assert.ok(globToRegExp("dist/").test("dist/index.js"));
+  assert.ok(globToRegExp("src/**/*.snap").test("src/a.snap"));
+  assert.ok(globToRegExp("src/**/*.snap").test("src/a/b/c.snap"));
+  assert.ok(!globToRegExp("src/*.ts").test("src/a/b.ts"));
+  assert.ok(globToRegExp("config/{dev,prod}.json").test("config/prod.json"));
+  assert.ok(!globToRegExp("config/{dev,prod}.json").test("config/test.json"));
+});
+
+test("parseGlobList splits on commas and newlines and skips comments", () => {
+  assert.deepEqual(parseGlobList("a.txt, b/**\n# note\n\nc/"), ["a.txt", "b/**", "c/"]);
+  assert.deepEqual(parseGlobList(""), []);
+});
+
+test("parseForbiddenPathAction defaults to revert and rejects unknown actions", () => {
+  assert.equal(parseForbiddenPathAction(""), "revert");
+  assert.equal(parseForbiddenPathAction(" FAIL "), "fail");
+  assert.throws(() => parseForbiddenPathAction("ignore"), /Invalid forbidden-path-action 'ignore'/);
+});
+
+test("parsePorcelainStatus reads renames with their source path", () => {
+  const output = " M app.txt\0R  new name.txt\0old name.txt\0?? .env\0";
+  assert.deepEqual(parsePorcelainStatus(output), [
+    { status: " M", path: "app.txt" },
+    { status: "R ", path: "new name.txt", origPath: "old name.txt" },
+    { status: "??", path: ".env" },
+  ]);
+});
+
+test("findForbiddenChanges applies the deny list, allow list and both sides of a rename", () => {
+  const changes = parsePorcelainStatus(
+    " M app.txt\0?? yarn.lock\0 M .github/workflows/ci.yml\0R  src/config.ts\0.env.local\0?? web/yarn.lock\0"
+  );
+  const violations = findForbiddenChanges(changes, { deny: DEFAULT_FORBIDDEN_PATHS, allow: ["web/**"] });
+  assert.deepEqual(
+    violations.map((v) => v.path),
+    ["yarn.lock", ".github/workflows/ci.yml", "src/config.ts"]
+  );
+  assert.match(
+    formatForbiddenChanges(violations, "revert"),
+    /^These changes touch paths the fix must not modify:\n- yarn\.lock\n- \.github\/workflows\/ci\.yml\n- \.env\.local -> src\/config\.ts\nThey were reverted\./
+  );
+});
+
+test("parseNumstat reads line counts and counts binary files as zero", () => {
+  assert.deepEqual(parseNumstat("3\t1\tsrc/app.ts\0-\t-\tlogo.png\0"), [
+    { path: "src/app.ts", added: 3, removed: 1 },
+    { path: "logo.png", added: 0, removed: 0 },
+  ]);
+});
+
+test("checkDiffLimits names every limit the diff exceeds", () => {
+  const files = [
+    { path: "src/a.ts", added: 40, removed: 2, deleted: false },
+    { path: "src/b.ts", added: 5, removed: 30, deleted: false },
+    { path: "test/a.test.ts", added: 0, removed: 12, deleted: true },
+  ];
+  assert.deepEqual(checkDiffLimits(files, { maxChangedFiles: 3, maxAddedLines: 45, allowTestDeletion: true }), []);
+  assert.deepEqual(
+    checkDiffLimits(files, { maxChangedFiles: 2, maxAddedLines: 10, maxRemovedLines: 50, allowTestDeletion: false }),
+    [
+      "3 files changed, more than max-changed-files (2)",
+      "45 lines added, more than max-added-lines (10)",
+      "test files deleted: test/a.test.ts",
+    ]
+  );
+});
+
+const TEST_DIFF = `diff --git a/src/app.test.ts b/src/app.test.ts
+index 1111111..2222222 100644
+--- a/src/app.test.ts
++++ b/src/app.test.ts
+@@ -1,6 +1,6 @@
+-test("adds", () => {
++test.skip("adds", () => {
+   const sum = add(1, 2);
+-  expect(sum).toBe(3);
++  expect(sum).toBe(4);
+ });
+-  assert.equal(total, 6);
++  assert.equal(total, 6);
+diff --git a/src/app.ts b/src/app.ts
+index 3333333..4444444 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1 +1 @@
+-assert(value);
++return value;
+diff --git a/tests/test_new.py b/tests/test_new.py
+new file mode 100644
+--- /dev/null
++++ b/tests/test_new.py
+@@ -0,0 +1,2 @@
++@pytest.mark.skip
++def test_new(): pass
+`;
+
+test("parseUnifiedDiff collects added and removed lines per file", () => {
+  const patches = parseUnifiedDiff(TEST_DIFF);
+  assert.deepEqual(
+    patches.map((p) => [p.path, p.isNew, p.added.length, p.removed.length]),
+    [
+      ["src/app.test.ts", false, 3, 3],
+      ["src/app.ts", false, 1, 1],
+      ["tests/test_new.py", true, 2, 0],
+    ]
+  );
+});
+
+test("detectTestChanges finds changed assertions, skipped tests and edits to the reproducing test", () => {
+  const changes = detectTestChanges(parseUnifiedDiff(TEST_DIFF), ["src/app.test.ts"]);
+  assert.deepEqual(changes.files, ["src/app.test.ts", "tests/test_new.py"]);
+  assert.deepEqual(changes.added, ["tests/test_new.py"]);
+  assert.deepEqual(changes.tampering, [
+    { kind: "reproducing-test-modified", path: "src/app.test.ts" },
+    { kind: "assertion-removed", path: "src/app.test.ts", line: "expect(sum).toBe(3);" },
+    { kind: "test-skipped", path: "src/app.test.ts", line: 'test.skip("adds", () => {' },
+    { kind: "test-skipped", path: "tests/test_new.py", line: "@pytest.mark.skip" },
+  ]);
+});
+
+test("detectTestChanges accepts tests that only gain assertions", () => {
+  const diff = TEST_DIFF.split("diff --git a/src/app.ts")[0]
+    .replace('-test("adds", () => {\n+test.skip("adds", () => {\n', ' test("adds", () => {\n')
+    .replace("-  expect(sum).toBe(3);\n+  expect(sum).toBe(4);", " expect(sum).toBe(3);\n+  expect(sum).not.toBe(4);");
+  const changes = detectTestChanges(parseUnifiedDiff(diff), []);
+  assert.deepEqual(changes, { files: ["src/app.test.ts"], added: [], tampering: [] });
+});
+
+test("detectTestChanges allows new test cases in the reproducing test with allowAddedTests", () => {
+  const diff = TEST_DIFF.split("diff --git a/src/app.ts")[0]
+    .replace('-test("adds", () => {\n+test.skip("adds", () => {\n', ' test("adds", () => {\n')
+    .replace("-  expect(sum).toBe(3);\n+  expect(sum).toBe(4);", " expect(sum).toBe(3);\n+  expect(sum).not.toBe(4);")
+    .replace("-  assert.equal(total, 6);\n", "");
+  const changes = detectTestChanges(parseUnifiedDiff(diff), ["src/app.test.ts"], { allowAddedTests: true });
+  assert.deepEqual(changes, { files: ["src/app.test.ts"], added: ["src/app.test.ts"], tampering: [] });
+
+  const edited = detectTestChanges(parseUnifiedDiff(TEST_DIFF), ["src/app.test.ts"], { allowAddedTests: true });
+  assert.deepEqual(edited.added, ["tests/test_new.py"]);
+  assert.deepEqual(edited.tampering[0], { kind: "reproducing-test-modified", path: "src/app.test.ts" });
+});
+
+test("reproducingTestFiles reads test file arguments of the specific test command", () => {
+  const existing = new Set(["src/app.test.ts", "tests/test_app.py", "app.txt"]);
+  const resolve = (arg: string) => (existing.has(arg) ? arg : undefined);
+  assert.deepEqual(reproducingTestFiles("npx jest src/app.test.ts -t 'adds'", resolve), ["src/app.test.ts"]);
+  assert.deepEqual(reproducingTestFiles('pytest "tests/test_app.py::test_add" -q', resolve), ["tests/test_app.py"]);
+  assert.deepEqual(reproducingTestFiles("grep -q fixed app.txt", resolve), []);
+});
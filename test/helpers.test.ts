@@ -1,10 +1,15 @@
 import test from "node:test";
 import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 
-// Test shellEscape function behavior (testing the pattern used in index.ts)
-function shellEscape(arg: string): string {
-  return `'${arg.replace(/'/g, "'\\''")}'`;
-}
+import type { AgentType } from "../src/agents";
+import { rankCandidates } from "../src/candidates";
+import { formatCandidatesNote } from "../src/description";
+import { parseBudgetLimit, parseCountLimit, parseFlakyReruns, parseRetryMax, parseTimeoutMinutes } from "../src/inputs";
+import { buildAgentPrompt } from "../src/pipeline";
+import { exec, removePromptFile, sandboxCommand, shellEscape, spawnAsync, writePromptFile } from "../src/utils";
 
 test("shellEscape handles simple strings", () => {
   assert.equal(shellEscape("hello"), "'hello'");
@@ -99,12 +104,6 @@ test("isValidApiKey returns true for key with leading/trailing spaces", () => {
   assert.equal(isValidApiKey(" sk-test-key "), true);
 });
 
-// Test retry-max input parsing pattern (used in index.ts)
-function parseRetryMax(input: string | undefined): number {
-  const parsed = parseInt(input || "3", 10);
-  return Number.isNaN(parsed) ? 3 : Math.max(1, parsed);
-}
-
 test("parseRetryMax returns default 3 when input is empty", () => {
   assert.equal(parseRetryMax(""), 3);
 });
@@ -132,41 +131,119 @@ test("parseRetryMax handles NaN gracefully (returns default)", () => {
   assert.equal(parseRetryMax("invalid"), 3);
 });
 
-// Test buildAgentPrompt retry message pattern
-function buildRetryMessage(attempt: number, previousFailure: string): string | undefined {
-  if (attempt > 0 && previousFailure) {
-    return (
-      `IMPORTANT: This is retry attempt #${attempt + 1}. The previous fix attempt failed the tests.\n` +
-      "PREVIOUS TEST FAILURE OUTPUT:\n" +
-      `${previousFailure}\n\n` +
-      "Please analyze why the previous fix was incorrect and provide a different solution.\n\n"
-    );
-  }
-  return undefined;
+test("parseFlakyReruns returns default 2 when input is empty", () => {
+  assert.equal(parseFlakyReruns(""), 2);
+  assert.equal(parseFlakyReruns(undefined), 2);
+});
+
+test("parseFlakyReruns allows 0 to disable re-runs", () => {
+  assert.equal(parseFlakyReruns("0"), 0);
+  assert.equal(parseFlakyReruns("-1"), 0);
+  assert.equal(parseFlakyReruns("invalid"), 2);
+});
+
+test("parseBudgetLimit means no limit when input is empty", () => {
+  assert.equal(parseBudgetLimit("max-tokens", ""), undefined);
+  assert.equal(parseBudgetLimit("max-tokens", undefined), undefined);
+  assert.equal(parseBudgetLimit("max-cost-usd", "1.5"), 1.5);
+});
+
+test("parseBudgetLimit rejects values that are not positive numbers", () => {
+  assert.throws(() => parseBudgetLimit("max-cost-usd", "$5"), /Invalid max-cost-usd '\$5'/);
+  assert.throws(() => parseBudgetLimit("max-tokens", "0"), /Must be a positive number/);
+});
+
+test("parseCountLimit accepts positive whole numbers and means no limit when empty", () => {
+  assert.equal(parseCountLimit("max-changed-files", ""), undefined);
+  assert.equal(parseCountLimit("max-changed-files", " 5 "), 5);
+  assert.throws(() => parseCountLimit("max-added-lines", "2.5"), /Invalid max-added-lines '2.5'/);
+  assert.throws(() => parseCountLimit("max-added-lines", "-1"), /Must be a positive whole number/);
+});
+
+test("parseTimeoutMinutes converts minutes to milliseconds", () => {
+  assert.equal(parseTimeoutMinutes("run-timeout-minutes", ""), undefined);
+  assert.equal(parseTimeoutMinutes("agent-timeout-minutes", "10"), 600_000);
+  assert.equal(parseTimeoutMinutes("test-timeout-minutes", "0.5"), 30_000);
+  assert.throws(() => parseTimeoutMinutes("test-timeout-minutes", "-1"), /Invalid test-timeout-minutes '-1'/);
+});
+
+test("exec reports a timeout with the output until then", async () => {
+  const res = await exec("echo partial; sleep 5", { silent: true, timeoutMs: 500 });
+  assert.equal(res.timedOut, true);
+  assert.notEqual(res.exitCode, 0);
+  assert.equal(res.stdout, "partial\n");
+  assert.match(res.stderr, /\[TIMED OUT after 1 s: the command was killed\]/);
+});
+
+test("exec runs git without the repository's hooks and fsmonitor", async () => {
+  const repo = fs.mkdtempSync(path.join(os.tmpdir(), "autofix-hooks-"));
+  await exec("git init -q && git config core.fsmonitor 'touch fsmonitor-ran; false'", { silent: true, cwd: repo });
+  fs.writeFileSync(path.join(repo, ".git", "hooks", "pre-commit"), "#!/bin/sh\ntouch hook-ran\n", { mode: 0o755 });
+
+  const res = await exec("git status --short && git -c user.name=a -c user.email=a@b commit -q --allow-empty -m x", {
+    silent: true,
+    cwd: repo,
+  });
+
+  assert.equal(res.exitCode, 0, res.stderr);
+  assert.ok(!fs.existsSync(path.join(repo, "hook-ran")));
+  assert.ok(!fs.existsSync(path.join(repo, "fsmonitor-ran")));
+  fs.rmSync(repo, { recursive: true, force: true });
+});
+
+test("spawnAsync streams output line by line into a log group and captures all of it", async (t) => {
+  const logged: string[] = [];
+  t.mock.method(process.stdout, "write", (chunk: string | Uint8Array) => {
+    // The test runner reports over stdout as well
+    if (/^(::|one|two|three)/.test(String(chunk))) logged.push(String(chunk).trimEnd());
+    return true;
+  });
+  const res = await spawnAsync("sh", ["-c", "cat; echo two >&2; printf three"], { input: "one\n", group: "Agent" });
+  t.mock.restoreAll();
+
+  assert.equal(res.exitCode, 0);
+  assert.equal(res.stdout, "one\nthree");
+  assert.equal(res.stderr, "two\n");
+  assert.equal(logged[0], "::group::Agent");
+  assert.equal(logged[logged.length - 1], "::endgroup::");
+  assert.deepEqual(logged.slice(1, -1).sort(), ["one", "three", "two"]);
+});
+
+test("spawnAsync kills the processes a timed-out command started", async () => {
+  const startedAt = Date.now();
+  const res = await spawnAsync("sh", ["-c", "sleep 5 | cat"], { timeoutMs: 300 });
+  assert.equal(res.timedOut, true);
+  assert.ok(Date.now() - startedAt < 4000);
+});
+
+function promptForAttempt(retryAttempt: number, previousTestFailure: string): string {
+  return buildAgentPrompt({
+    issueTitle: "Crash on save",
+    issueBody: "Saving crashes.",
+    agentType: "codex",
+    retryAttempt,
+    previousTestFailure,
+  });
 }
 
-test("buildRetryMessage returns undefined for first attempt", () => {
-  assert.equal(buildRetryMessage(0, "some failure"), undefined);
+test("buildAgentPrompt has no retry message for the first attempt", () => {
+  assert.equal(promptForAttempt(0, "some failure").includes("retry attempt"), false);
 });
 
-test("buildRetryMessage returns undefined when no previous failure", () => {
-  assert.equal(buildRetryMessage(1, ""), undefined);
+test("buildAgentPrompt has no retry message when there is no previous failure", () => {
+  assert.equal(promptForAttempt(1, "").includes("retry attempt"), false);
 });
 
-test("buildRetryMessage includes attempt number and failure output", () => {
-  const msg = buildRetryMessage(1, "Test failed: expected X got Y");
-  assert.ok(msg?.includes("retry attempt #2"));
-  assert.ok(msg?.includes("Test failed: expected X got Y"));
-  assert.ok(msg?.includes("PREVIOUS TEST FAILURE OUTPUT"));
+test("buildAgentPrompt includes the attempt number and the previous failure output on a retry", () => {
+  const prompt = promptForAttempt(1, "Test failed: expected X got Y");
+  assert.ok(prompt.includes("retry attempt #2"));
+  assert.ok(prompt.includes("PREVIOUS TEST FAILURE OUTPUT:\nTest failed: expected X got Y"));
 });
 
-test("buildRetryMessage increments attempt number correctly", () => {
-  const msg1 = buildRetryMessage(1, "failure");
-  const msg2 = buildRetryMessage(2, "failure");
-  const msg3 = buildRetryMessage(3, "failure");
-  assert.ok(msg1?.includes("retry attempt #2"));
-  assert.ok(msg2?.includes("retry attempt #3"));
-  assert.ok(msg3?.includes("retry attempt #4"));
+test("buildAgentPrompt numbers the retries from the second attempt", () => {
+  assert.ok(promptForAttempt(1, "failure").includes("retry attempt #2"));
+  assert.ok(promptForAttempt(2, "failure").includes("retry attempt #3"));
+  assert.ok(promptForAttempt(3, "failure").includes("retry attempt #4"));
 });
 
 // Test add-description input parsing pattern
@@ -217,22 +294,78 @@ test("buildDescriptionPromptSections identifies all required sections", () => {
   assert.ok(sections.includes("How It Fixes the Bug"));
 });
 
-// Mirror buildAgentPrompt restriction behavior in src/index.ts
-function buildPromptRestrictionsForAgent(agentType: "aider" | "codex"): string {
-  return (
-    "IMPORTANT RESTRICTIONS:\n" +
-    (agentType === "aider" ? "" : "- Do NOT run any tests - the CI system will run them\n") +
-    "- Do NOT run git commands (no git add, git commit, git push) - the CI system handles all git operations\n" +
-    "- ONLY modify the source files needed to fix the bug"
-  );
-}
+test("buildAgentPrompt lets only aider run the tests", () => {
+  const prompt = (agentType: AgentType) => buildAgentPrompt({ issueTitle: "Crash", issueBody: "Crash.", agentType });
+  assert.equal(prompt("aider").includes("Do NOT run any tests"), false);
+  assert.equal(prompt("codex").includes("Do NOT run any tests"), true);
+  assert.equal(prompt("claude").includes("Do NOT run any tests"), true);
+});
 
-test("prompt restrictions omit test prohibition for aider", () => {
-  const restrictions = buildPromptRestrictionsForAgent("aider");
-  assert.equal(restrictions.includes("Do NOT run any tests"), false);
+test("sandboxCommand runs the command as the sandbox user and keeps secrets off the command line", () => {
+  const env = { PATH: "/usr/bin:/bin", OPENAI_API_KEY: "sk-test", CI: "true" };
+  const wrapped = sandboxCommand(
+    { user: "autofix-sandbox", home: "/tmp/sandbox", aclTrees: [], aclPaths: [] },
+    "aider",
+    ["--yes-always"],
+    env
+  );
+  assert.equal(wrapped.command, "sudo");
+  assert.deepEqual(wrapped.args, [
+    "-n",
+    "-u",
+    "autofix-sandbox",
+    "--preserve-env=OPENAI_API_KEY,CI",
+    "--",
+    "env",
+    "PATH=/usr/bin:/bin",
+    "HOME=/tmp/sandbox",
+    "TMPDIR=/tmp/sandbox/tmp",
+    "aider",
+    "--yes-always",
+  ]);
+  assert.equal(wrapped.env, env);
+  assert.ok(!wrapped.args.some((arg) => arg.includes("sk-test")));
+});
+
+test("writePromptFile gives each prompt a directory of its own", () => {
+  const first = writePromptFile("custom-agent-prompt", "first");
+  const second = writePromptFile("custom-agent-prompt", "second");
+  try {
+    assert.notEqual(path.dirname(first), path.dirname(second));
+    assert.equal(fs.readFileSync(first, "utf8"), "first");
+    assert.equal(fs.readFileSync(second, "utf8"), "second");
+  } finally {
+    removePromptFile(first);
+    removePromptFile(second);
+  }
+  assert.ok(!fs.existsSync(path.dirname(first)));
+});
+
+test("rankCandidates prefers passing, then fewer guardrail violations, then smaller diffs, then earlier candidates", () => {
+  const candidate = { agentType: "codex" as const, model: "m" };
+  const ranked = rankCandidates([
+    { ...candidate, index: 1, passed: false, reason: "failed" },
+    { ...candidate, index: 2, passed: true, changedLines: 10, guardrailViolations: 0 },
+    { ...candidate, index: 3, passed: true, changedLines: 2, guardrailViolations: 1 },
+    { ...candidate, index: 4, passed: true, changedLines: 4, guardrailViolations: 0 },
+    { ...candidate, index: 5, passed: true, changedLines: 4, guardrailViolations: 0 },
+  ]);
+  assert.deepEqual(
+    ranked.map((c) => c.index),
+    [4, 5, 2, 3, 1]
+  );
 });
 
-test("prompt restrictions include test prohibition for non-aider agents", () => {
-  const restrictions = buildPromptRestrictionsForAgent("codex");
-  assert.equal(restrictions.includes("Do NOT run any tests"), true);
+test("formatCandidatesNote keeps the diffs of many alternatives within one size limit", () => {
+  const candidates = Array.from({ length: 8 }, (_, i) => ({
+    index: i + 1,
+    agentType: "codex" as const,
+    model: "m",
+    passed: true,
+    changedLines: 1000,
+    diff: `+${"x".repeat(50_000)}\n`,
+  }));
+  const note = formatCandidatesNote(candidates);
+  assert.equal(note.match(/<details>/g)?.length, 7);
+  assert.ok(note.length < 25_000, `${note.length} characters`);
 });
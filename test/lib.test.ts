@@ -3,7 +3,14 @@ import assert from "node:assert/strict";
 
 import {
   extractIssueFormFieldValue,
+  formatReviewFeedback,
+  hasWritePermission,
+  parseAutofixBranchIssueNumber,
+  parseAutofixCommand,
+  parseBugReport,
   parseGitHubIssueRef,
+  parseOnExisting,
+  parseReproductionPolicy,
   resolveBaseBranch,
   stripIssueSections,
   truncate,
@@ -122,3 +129,151 @@ test("stripIssueSections removes user story section but keeps others", () => {
   const cleaned = stripIssueSections(body, ["User story issue (reference)", "User story issue"]);
   assert.equal(cleaned, ["### Test case issue (reference)", "#456", "", "### Bug description", "It fails."].join("\n"));
 });
+
+test("parseAutofixCommand parses a bare /autofix command", () => {
+  assert.deepEqual(parseAutofixCommand("/autofix"), { kind: "run" });
+});
+
+test("parseAutofixCommand parses /autofix retry", () => {
+  assert.deepEqual(parseAutofixCommand("Tests look wrong.\n\n/autofix retry\n"), { kind: "retry" });
+});
+
+test("parseAutofixCommand parses a multi-line hint", () => {
+  assert.deepEqual(parseAutofixCommand("/autofix hint: look at src/parser.ts\nthe null case is handled there"), {
+    kind: "run",
+    hint: "look at src/parser.ts\nthe null case is handled there",
+  });
+});
+
+test("parseAutofixCommand parses retry with a hint", () => {
+  assert.deepEqual(parseAutofixCommand("/autofix retry hint: keep the public API"), {
+    kind: "retry",
+    hint: "keep the public API",
+  });
+});
+
+test("parseAutofixCommand ignores comments without a command", () => {
+  assert.equal(parseAutofixCommand("Thanks for the fix!"), undefined);
+  assert.equal(parseAutofixCommand("/autofixes"), undefined);
+  assert.equal(parseAutofixCommand("> /autofix"), undefined);
+});
+
+test("parseAutofixCommand takes other text on the command's line as the hint", () => {
+  assert.deepEqual(parseAutofixCommand("/autofix please check the parser"), {
+    kind: "run",
+    hint: "please check the parser",
+  });
+  assert.deepEqual(parseAutofixCommand("/autofix retry the null case\nThanks!"), {
+    kind: "retry",
+    hint: "the null case",
+  });
+});
+
+test("parseAutofixCommand leaves the lines after a command without hint: out", () => {
+  assert.deepEqual(parseAutofixCommand("/autofix retry\nThanks!"), { kind: "retry" });
+});
+
+test("parseAutofixBranchIssueNumber extracts the issue number", () => {
+  assert.equal(parseAutofixBranchIssueNumber("qa/issue-42-1700000000000"), 42);
+  assert.equal(parseAutofixBranchIssueNumber("refs/heads/qa/issue-7-1700000000000"), 7);
+});
+
+test("parseAutofixBranchIssueNumber returns undefined for other branches", () => {
+  assert.equal(parseAutofixBranchIssueNumber("feature/issue-42-x"), undefined);
+  assert.equal(parseAutofixBranchIssueNumber("main"), undefined);
+});
+
+test("hasWritePermission accepts write, maintain and admin", () => {
+  assert.equal(hasWritePermission("admin"), true);
+  assert.equal(hasWritePermission("maintain"), true);
+  assert.equal(hasWritePermission("write"), true);
+  assert.equal(hasWritePermission("read"), false);
+  assert.equal(hasWritePermission("none"), false);
+  assert.equal(hasWritePermission(undefined), false);
+});
+
+test("formatReviewFeedback includes summary and inline comments with file and line context", () => {
+  const out = formatReviewFeedback({
+    reviewBody: "Close, but not quite.",
+    comments: [
+      {
+        path: "src/parser.ts",
+        line: 12,
+        diffHunk: "@@ -10,3 +10,3 @@\n-  return a;\n+  return a ?? b;",
+        body: "this breaks the null case",
+      },
+      { path: "src/index.ts", line: null, body: "Please add a test." },
+    ],
+  });
+  assert.ok(out.startsWith("REVIEW SUMMARY:\nClose, but not quite."));
+  assert.ok(out.includes("--- src/parser.ts (line 12) ---\n```diff\n@@ -10,3 +10,3 @@"));
+  assert.ok(out.includes("Comment: this breaks the null case"));
+  assert.ok(out.includes("--- src/index.ts ---\nComment: Please add a test."));
+});
+
+test("formatReviewFeedback returns empty string when there is nothing to address", () => {
+  assert.equal(formatReviewFeedback({ reviewBody: "  ", comments: [] }), "");
+});
+
+test("parseBugReport extracts issue form fields and strips the user story", () => {
+  const body = [
+    "### User story issue (reference)",
+    "#123",
+    "",
+    "### Test case issue (reference)",
+    "#456",
+    "",
+    "### Bug description",
+    "It fails.",
+    "",
+    "### Branch where bug was discovered",
+    "develop",
+    "",
+    "### Test command (specific test for this bug)",
+    'npm test -- -t "validates email"',
+    "",
+    "### Test command (full suite for regression)",
+    "_No response_",
+  ].join("\n");
+
+  const report = parseBugReport(body, { testCommandSuite: "npm test" });
+  assert.equal(report.testCaseRefRaw, "#456");
+  assert.equal(report.testCommandSpecific, 'npm test -- -t "validates email"');
+  assert.equal(report.testCommandSuite, "npm test");
+  assert.equal(report.issueBranch, "develop");
+  assert.equal(report.bodyWithoutUserStory.includes("#123"), false);
+  assert.ok(report.bodyWithoutUserStory.startsWith("### Test case issue (reference)"));
+});
+
+test("parseBugReport returns empty values for an empty body", () => {
+  assert.deepEqual(parseBugReport(""), {
+    testCaseRefRaw: "",
+    testCommandSpecific: "",
+    testCommandSuite: "",
+    issueBranch: "",
+    bodyWithoutUserStory: "",
+  });
+});
+
+test("parseReproductionPolicy defaults to fail", () => {
+  assert.equal(parseReproductionPolicy(""), "fail");
+  assert.equal(parseReproductionPolicy("  "), "fail");
+});
+
+test("parseReproductionPolicy accepts the known policies", () => {
+  assert.equal(parseReproductionPolicy("warn"), "warn");
+  assert.equal(parseReproductionPolicy(" ask-agent-to-write-test "), "ask-agent-to-write-test");
+});
+
+test("parseOnExisting defaults to update and rejects unknown modes", () => {
+  assert.equal(parseOnExisting(""), "update");
+  assert.equal(parseOnExisting(" skip "), "skip");
+  assert.throws(
+    () => parseOnExisting("replace"),
+    /Invalid on-existing 'replace'\. Must be one of: update, new, skip\./
+  );
+});
+
+test("parseReproductionPolicy rejects unknown policies", () => {
+  assert.throws(() => parseReproductionPolicy("ignore"), /Invalid reproduction-policy 'ignore'/);
+});
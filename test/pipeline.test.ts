@@ -0,0 +1,1293 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+
+import { acquireIssueLock, runPipeline } from "../src/pipeline";
+import { customAgent } from "../src/agents";
+import type { AgentParams } from "../src/agents";
+import type { PipelineEvent } from "../src/pipeline";
+import { exec } from "../src/utils";
+import { FakeGitHub, createFakeAgent, createTempRepo, fixApp, pipelineConfig, pipelineDeps } from "./fakes";
+
+function labeledIssueEvent(labels = ["autofix"]): PipelineEvent {
+  return {
+    eventName: "issues",
+    payload: { action: "labeled", issue: { number: 7, labels: labels.map((name) => ({ name })) } },
+  };
+}
+
+function fakeGitHub(): FakeGitHub {
+  const github = new FakeGitHub();
+  github.issues.set(7, { title: "App is broken", body: "The app says broken instead of fixed." });
+  return github;
+}
+
+test("runPipeline opens a PR when the first attempt fixes the bug", async () => {
+  const { repoRoot, origin } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(agent.prompts.length, 1);
+  assert.match(agent.prompts[0], /ISSUE TITLE: App is broken/);
+  assert.equal(github.pullRequests.length, 1);
+  const pr = github.pullRequests[0];
+  assert.equal(result.prUrl, pr.url);
+  assert.equal(pr.title, "Fix: App is broken");
+  assert.equal(pr.baseRef, "main");
+  assert.match(pr.headRef, /^qa\/issue-7-\d+$/);
+  assert.match(pr.body, /Closes #7/);
+  assert.equal(github.comments.length, 1);
+  assert.match(github.comments[0].body, /^I opened a PR for this issue: /);
+  assert.match(github.comments[0].body, /Token usage: [\d,]+ input, [\d,]+ output\. Cost: /);
+
+  // The fix was committed and pushed to the PR branch
+  const pushed = await exec(`git --git-dir=${origin} show ${pr.headRef}:app.txt`, { silent: true });
+  assert.equal(pushed.stdout, "fixed\n");
+});
+
+test("runPipeline retries with the test failure until the fix passes", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params, call) => {
+    if (call === 0) {
+      fs.writeFileSync(path.join(params.repoRoot, "app.txt"), "still broken\n");
+    } else {
+      fixApp(params);
+    }
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(agent.prompts.length, 2);
+  assert.doesNotMatch(agent.prompts[0], /retry attempt/);
+  assert.match(agent.prompts[1], /retry attempt #2/);
+  assert.match(agent.prompts[1], /app\.txt is not fixed/);
+  assert.equal(github.pullRequests.length, 1);
+});
+
+test("runPipeline reports its progress in one comment that it edits, and labels the issue", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params, call) => {
+    if (call === 0) {
+      fs.writeFileSync(path.join(params.repoRoot, "app.txt"), "still broken\n");
+    } else {
+      fixApp(params);
+    }
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(github.comments.length, 1);
+  const [comment] = github.comments;
+  const edits = github.commentEdits.get(comment.id) ?? [];
+  assert.ok(edits.some((body) => body.includes("⏳ **Fixing with codex (test-model)**: attempt 2/3\n")));
+  assert.ok(
+    edits.some((body) => body.includes("⏳ **Fixing with codex (test-model)**: attempt 1/3: verifying the fix"))
+  );
+  assert.match(comment.body, /^I opened a PR for this issue: /);
+  assert.match(comment.body, /✅ \*\*Reproducing the bug\*\*/);
+  assert.match(comment.body, /<summary>❌ codex attempt 1: the specific test still failed<\/summary>/);
+  assert.match(comment.body, /<summary>✅ codex attempt 2: the tests passed<\/summary>/);
+  assert.match(comment.body, /✅ \*\*Publishing\*\*/);
+  assert.deepEqual(github.labels, [
+    { issueNumber: 7, labels: ["autofix:in-progress"] },
+    { issueNumber: 7, labels: ["autofix:pr-opened"] },
+  ]);
+  assert.deepEqual(github.removedLabels, [{ issueNumber: 7, label: "autofix:in-progress" }]);
+});
+
+test("runPipeline writes a run report with every attempt", async () => {
+  const { repoRoot } = createTempRepo();
+  const reportPath = path.join(path.dirname(repoRoot), "report", "autofix-report.json");
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params, call) => {
+    if (call === 0) {
+      fs.writeFileSync(path.join(params.repoRoot, "app.txt"), "still broken\n");
+    } else {
+      fixApp(params);
+    }
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { reportPath }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  const report = JSON.parse(fs.readFileSync(reportPath, "utf8"));
+  assert.deepEqual(report, JSON.parse(JSON.stringify(result.report)));
+  assert.equal(report.repository, "acme/widgets");
+  assert.equal(report.issueNumber, 7);
+  assert.equal(report.baseBranch, "main");
+  assert.match(report.branch, /^qa\/issue-7-\d+$/);
+  assert.deepEqual(report.agent, { type: "codex", model: "test-model" });
+  assert.deepEqual(report.changedFiles, ["app.txt"]);
+  assert.equal(report.outcome, "pr-opened");
+  assert.equal(report.prUrl, result.prUrl);
+
+  assert.equal(report.attempts.length, 2);
+  assert.deepEqual(
+    report.attempts.map((a: { attempt: number; exitCode: number }) => [a.attempt, a.exitCode]),
+    [
+      [1, 0],
+      [2, 0],
+    ]
+  );
+  assert.deepEqual(report.attempts[0].verification, { passed: false, failed: "specific", flaky: [] });
+  assert.equal(report.attempts[1].verification.passed, true);
+  assert.ok(report.usage.inputTokens > 0);
+  assert.equal(report.usage.inputTokens, report.attempts[0].usage.inputTokens + report.attempts[1].usage.inputTokens);
+});
+
+test("runPipeline fails without a PR after retry-max attempts", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fs.writeFileSync(path.join(params.repoRoot, "app.txt"), "still broken\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { retryMax: 2 }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.equal(result.message, "Specific test failed after 2 attempt(s); PR not opened.");
+  assert.equal(agent.prompts.length, 2);
+  assert.equal(github.pullRequests.length, 0);
+  assert.equal(github.comments.length, 1);
+  assert.match(github.comments[0].body, /the specific test still failed after 2 attempt\(s\)\. PR not opened\./);
+});
+
+test("runPipeline falls back to the next agent of the chain", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const codex = createFakeAgent("codex", () => ({ stdout: "", stderr: "rate limited", exitCode: 1 }));
+  const claude = createFakeAgent("claude", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, {
+      retryMax: 1,
+      agentChain: [
+        { type: "codex", model: "test-model", version: "" },
+        { type: "claude", model: "test-model", version: "" },
+      ],
+    }),
+    pipelineDeps(github, { codex, claude })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(codex.prompts.length, 1);
+  assert.equal(claude.prompts.length, 1);
+  assert.match(claude.prompts[0], /Other agents already tried to fix this bug/);
+  assert.match(github.pullRequests[0].body, /claude/);
+});
+
+test("runPipeline stops retrying once the token budget is reached", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fs.writeFileSync(path.join(params.repoRoot, "app.txt"), "still broken\n");
+    return { stdout: "tokens used: 5,000", stderr: "", exitCode: 0 };
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { retryMax: 3, maxTokens: 4000 }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.match(result.message, /^Budget exceeded after 1 attempt\(s\): the run used 5,000 tokens/);
+  assert.equal(agent.prompts.length, 1);
+  assert.equal(github.pullRequests.length, 0);
+  const last = github.comments[github.comments.length - 1].body;
+  assert.match(last, /<summary>Stopping codex after 1 attempt\(s\): .*reaches max-tokens \(4,000\)/);
+  assert.match(last, /Token usage: 5,000 input, 0 output\./);
+  assert.equal(result.report?.usage.inputTokens, 5000);
+});
+
+test("runPipeline does not fall back to the next agent over budget", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const aider = createFakeAgent("aider", () => ({
+    stdout: "Tokens: 2.5k sent, 500 received. Cost: $0.40 message, $0.40 session.",
+    stderr: "",
+    exitCode: 1,
+  }));
+  const claude = createFakeAgent("claude", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, {
+      maxCostUsd: 0.25,
+      agentChain: [
+        { type: "aider", model: "test-model", version: "" },
+        { type: "claude", model: "test-model", version: "" },
+      ],
+    }),
+    pipelineDeps(github, { aider, claude })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.match(result.message, /^Budget exceeded: the run cost \$0\.40, which reaches max-cost-usd \(\$0\.25\)/);
+  assert.equal(claude.prompts.length, 0);
+  const last = github.comments[github.comments.length - 1].body;
+  assert.match(last, /<summary>Not falling back to claude: /);
+  assert.match(last, /Token usage: 2,500 input, 500 output\. Cost: \$0\.40\./);
+});
+
+test("runPipeline reports an agent timeout with its partial output", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => ({
+    stdout: "Reading app.txt...",
+    stderr: "[TIMED OUT after 1 min: the command was killed]",
+    exitCode: 1,
+    timedOut: params.timeoutMs === 60_000,
+  }));
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { retryMax: 1, agentTimeoutMs: 60_000 }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "timed-out");
+  assert.equal(result.message, "codex timed out after 1 min.");
+  assert.equal(result.report?.attempts[0].timedOut, true);
+  const last = github.comments[github.comments.length - 1].body;
+  assert.match(last, /<summary>codex timed out after 1 min \(attempt 1\/1\)\.<\/summary>\n\nOutput until the timeout:/);
+  assert.match(last, /Reading app\.txt\.\.\./);
+});
+
+test("runPipeline stops starting attempts when the run timeout can't fit another one", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", () => {
+    // An attempt that takes 300ms and changes nothing
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 300);
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { retryMax: 3, runTimeoutMs: 500 }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "timed-out");
+  assert.match(result.message, /^Run timeout reached after 1 attempt\(s\) of codex: /);
+  assert.equal(agent.prompts.length, 1);
+  const last = github.comments[github.comments.length - 1].body;
+  assert.match(
+    last,
+    /<summary>Stopping codex after 1 attempt\(s\): \d+ s left of the run timeout, less than the longest attempt/
+  );
+});
+
+test("runPipeline reports the new files of a fix", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fixApp(params);
+    fs.writeFileSync(path.join(params.repoRoot, "notes.txt"), "new\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.deepEqual(result.report?.changedFiles, ["app.txt", "notes.txt"]);
+});
+
+test("runPipeline leaves the fix uncommitted and origin untouched in a dry run", async () => {
+  const { repoRoot, origin } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+  const head = (await exec("git rev-parse HEAD", { silent: true, cwd: repoRoot })).stdout;
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { dryRun: true }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(github.pullRequests[0].headRef, "main");
+  assert.equal((await exec("git rev-parse HEAD", { silent: true, cwd: repoRoot })).stdout, head);
+  assert.match((await exec("git diff HEAD", { silent: true, cwd: repoRoot })).stdout, /^\+fixed$/m);
+  const refs = await exec(`git --git-dir=${origin} for-each-ref --format='%(refname)'`, { silent: true });
+  assert.equal(refs.stdout, "refs/heads/main\n");
+});
+
+test("runPipeline reverts changes to forbidden paths and opens a PR with the rest", async () => {
+  const { repoRoot, origin } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fixApp(params);
+    fs.mkdirSync(path.join(params.repoRoot, ".github/workflows"), { recursive: true });
+    fs.writeFileSync(path.join(params.repoRoot, ".github/workflows/ci.yml"), "on: push\n");
+    fs.writeFileSync(path.join(params.repoRoot, "package-lock.json"), "{}\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.deepEqual(result.report?.changedFiles, ["app.txt"]);
+  const pushed = await exec(`git --git-dir=${origin} ls-tree -r --name-only ${github.pullRequests[0].headRef}`, {
+    silent: true,
+  });
+  assert.equal(pushed.stdout, "app.txt\n");
+});
+
+test("runPipeline rejects an attempt that changed a forbidden path under the fail action", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params, call) => {
+    fixApp(params);
+    if (call === 0) fs.writeFileSync(path.join(params.repoRoot, "package-lock.json"), "{}\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, {
+      pathRules: { deny: ["package-lock.json"], allow: [], action: "fail" },
+    }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(agent.prompts.length, 2);
+  assert.match(agent.prompts[1], /These changes touch paths the fix must not modify:\n- package-lock\.json/);
+  assert.match(agent.prompts[1], /The attempt was rejected because of them\./);
+});
+
+test("runPipeline retries an attempt whose change exceeds the size limits", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params, call) => {
+    fixApp(params);
+    if (call === 0) fs.writeFileSync(path.join(params.repoRoot, "rewrite.txt"), "a\nb\nc\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { diffLimits: { maxChangedFiles: 1, maxAddedLines: 2, allowTestDeletion: false } }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(agent.prompts.length, 2);
+  assert.match(agent.prompts[1], /2 files changed, more than max-changed-files \(1\)/);
+  assert.match(agent.prompts[1], /4 lines added, more than max-added-lines \(2\)/);
+});
+
+test("runPipeline accepts a fix that adds a dangling symlink and a symlink to a directory", async () => {
+  const { repoRoot, origin } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fixApp(params);
+    fs.symlinkSync("missing.txt", path.join(params.repoRoot, "dangling"));
+    fs.mkdirSync(path.join(params.repoRoot, "lib"));
+    fs.writeFileSync(path.join(params.repoRoot, "lib/util.txt"), "util\n");
+    fs.symlinkSync("lib", path.join(params.repoRoot, "lib-link"));
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { diffLimits: { maxAddedLines: 4, allowTestDeletion: false } }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(agent.prompts.length, 1);
+  const pushed = await exec(`git --git-dir=${origin} ls-tree -r --name-only ${github.pullRequests[0].headRef}`, {
+    silent: true,
+  });
+  assert.equal(pushed.stdout, "app.txt\ndangling\nlib-link\nlib/util.txt\n");
+});
+
+function skipTest(params: AgentParams): void {
+  fs.writeFileSync(path.join(params.repoRoot, "app.test.js"), 'it.skip("says fixed", () => {});\n');
+}
+
+test("runPipeline retries an attempt that skips a test", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params, call) => {
+    fixApp(params);
+    if (call === 0) skipTest(params);
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(agent.prompts.length, 2);
+  assert.match(agent.prompts[1], /The change weakens the tests:\n- test skipped in app\.test\.js/);
+  assert.doesNotMatch(github.pullRequests[0].body, /test files/);
+});
+
+test("runPipeline accepts a test change allowed by the label and lists it in the PR body", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  github.issues.set(7, { ...github.issues.get(7)!, labels: ["autofix", "autofix-allow-test-changes"] });
+  const agent = createFakeAgent("codex", (params) => {
+    fixApp(params);
+    skipTest(params);
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(agent.prompts.length, 1);
+  const body = github.pullRequests[0].body;
+  assert.match(body, /🧪 This fix changes test files: `app\.test\.js`\./);
+  assert.match(body, /It weakens the tests, which a label on the issue allowed\./);
+  assert.match(body, /- test skipped in app\.test\.js: `it\.skip/);
+});
+
+test("runPipeline redacts the API keys from the comments it posts", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", () => ({
+    stdout: "Using key openai-key-for-redaction",
+    stderr: "",
+    exitCode: 1,
+  }));
+
+  await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { retryMax: 1, openaiApiKey: "openai-key-for-redaction" }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  const last = github.comments[github.comments.length - 1].body;
+  assert.match(last, /Using key \*\*\*/);
+  assert.doesNotMatch(last, /openai-key-for-redaction/);
+});
+
+test("runPipeline does not commit a fix that adds a secret", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fixApp(params);
+    fs.writeFileSync(path.join(params.repoRoot, "config.txt"), `token=${"ghp" + "_" + "a1B2c3D4e5".repeat(4)}\n`);
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.equal(result.message, "codex's fix adds secrets to config.txt.");
+  assert.equal(github.pullRequests.length, 0);
+  assert.match(
+    github.comments[github.comments.length - 1].body,
+    /not committed\. PR not opened\.\n\n- config\.txt: GitHub token/
+  );
+});
+
+test("runPipeline publishes the new files of the winning candidate", async () => {
+  const { repoRoot, origin } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    if (path.basename(params.repoRoot) === "1") return { stdout: "", stderr: "gave up", exitCode: 1 };
+    fixApp(params);
+    fs.mkdirSync(path.join(params.repoRoot, "tests"));
+    fs.writeFileSync(path.join(params.repoRoot, "tests", "app.test.sh"), "grep -q fixed app.txt\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { candidates: 2, retryMax: 1 }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.deepEqual(result.report?.changedFiles, ["app.txt", "tests/app.test.sh"]);
+  const pushed = await exec(`git --git-dir=${origin} ls-tree -r --name-only ${github.pullRequests[0].headRef}`, {
+    silent: true,
+  });
+  assert.deepEqual(pushed.stdout.trim().split("\n"), ["app.txt", "tests/app.test.sh"]);
+});
+
+test("runPipeline publishes the smallest passing candidate and lists the others in the PR body", async () => {
+  const { repoRoot, origin } = createTempRepo();
+  // Ignored dependencies of the checkout, which the test command needs
+  fs.appendFileSync(path.join(repoRoot, ".git", "info", "exclude"), "deps/\n");
+  fs.mkdirSync(path.join(repoRoot, "deps"));
+  fs.writeFileSync(path.join(repoRoot, "deps", "lib.txt"), "lib\n");
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    const candidate = path.basename(params.repoRoot);
+    if (candidate === "3") return { stdout: "", stderr: "gave up", exitCode: 1 };
+    fixApp(params);
+    if (candidate === "1") fs.writeFileSync(path.join(params.repoRoot, "notes.txt"), "one\ntwo\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, {
+      candidates: 3,
+      retryMax: 1,
+      testCommandSpecific: "test -f deps/lib.txt && grep -q fixed app.txt",
+    }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(agent.prompts.length, 3);
+  const pr = github.pullRequests[0];
+  assert.match(pr.body, /picked from 3 candidates/);
+  assert.match(pr.body, /\| 2 \| codex \(test-model\) \| ✅ picked \| 2 \| 0 \|/);
+  assert.match(pr.body, /\| 1 \| codex \(test-model\) \| passed \| 4 \| 0 \|/);
+  assert.match(pr.body, /\| 3 \| codex \(test-model\) \| ❌ codex failed to generate a fix\. \|/);
+  assert.match(pr.body, /<summary>Candidate 1 \(codex\): 4 changed lines<\/summary>[\s\S]*\+one/);
+
+  // Only the picked change was committed, and the worktrees are gone
+  const pushed = await exec(`git --git-dir=${origin} ls-tree --name-only ${pr.headRef}`, { silent: true });
+  assert.deepEqual(pushed.stdout.trim().split("\n"), ["app.txt"]);
+  const worktrees = await exec("git worktree list", { silent: true, cwd: repoRoot });
+  assert.equal(worktrees.stdout.trim().split("\n").length, 1);
+  assert.ok(fs.existsSync(path.join(repoRoot, "deps", "lib.txt")));
+  assert.equal(
+    fs
+      .readFileSync(path.join(repoRoot, ".git", "info", "exclude"), "utf8")
+      .split("\n")
+      .slice(-2)[0],
+    "deps/"
+  );
+});
+
+test("runPipeline reports every candidate when none of them passes", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fs.writeFileSync(path.join(params.repoRoot, "app.txt"), "still broken\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { candidates: 2, retryMax: 1 }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.equal(result.message, "None of the 2 candidates produced a working fix.");
+  assert.equal(github.pullRequests.length, 0);
+  assert.equal(github.comments.length, 1);
+  assert.match(github.comments[0].body, /<summary>None of the 2 candidates produced a working fix\. PR not opened\./);
+  assert.match(github.comments[0].body, /<summary>Candidate 2 \(codex, test-model\): Specific test failed/);
+  assert.match(github.comments[0].body, /app\.txt is not fixed/);
+});
+
+test("runPipeline counts the usage of all candidates against the budget", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fs.writeFileSync(path.join(params.repoRoot, "app.txt"), "still broken\n");
+    return { stdout: "tokens used: 5,000", stderr: "", exitCode: 0 };
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { candidates: 2, retryMax: 3, maxTokens: 9000 }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  // With a budget each, both candidates would retry once: 4 attempts
+  assert.ok(agent.prompts.length <= 3, `${agent.prompts.length} attempts`);
+  assert.match(github.comments[0].body, /Budget exceeded after \d attempt\(s\): the run used 10,000 tokens/);
+});
+
+// Stands in for sudo: runs sandboxed commands as the current user, and skips the setup of the sandbox.
+// \`pkill -u\` signals every sandboxed command, as it would for the sandbox user.
+const FAKE_SUDO = `#!/bin/sh
+pids="$(dirname "$0")/sandboxed-pids"
+[ "$1" = "-n" ] && shift
+case "$1" in
+  -u) echo $$ >> "$pids"; while [ "$1" != "--" ]; do shift; done; shift; exec "$@" ;;
+  pkill) for pid in $(cat "$pids"); do kill "$2" "-$pid" 2>/dev/null; done ;;
+  sh) exit 0 ;;
+  *) exec "$@" ;;
+esac
+`;
+
+test("runPipeline stops only the candidate that times out in isolation mode", async () => {
+  const { repoRoot } = createTempRepo();
+  const bin = fs.mkdtempSync(path.join(path.dirname(repoRoot), "bin-"));
+  fs.writeFileSync(path.join(bin, "sudo"), FAKE_SUDO, { mode: 0o755 });
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${bin}:${originalPath}`;
+  const github = fakeGitHub();
+
+  try {
+    const result = await runPipeline(
+      labeledIssueEvent(),
+      pipelineConfig(repoRoot, {
+        agentChain: [{ type: "custom", model: "test-model", version: "" }],
+        // Candidate 1 hangs until its timeout, while the tests of candidate 2 are still running
+        customAgentCommand: 'case "$(pwd)" in */1) sleep 30 ;; *) echo fixed > app.txt ;; esac',
+        testCommandSpecific: 'sleep 2; grep -q fixed app.txt || { echo "app.txt is not fixed"; exit 1; }',
+        agentTimeoutMs: 1000,
+        candidates: 2,
+        retryMax: 1,
+        isolation: { networkAllowlist: [] },
+      }),
+      { ...pipelineDeps(github, {}), getAgent: () => customAgent }
+    );
+
+    assert.equal(result.outcome, "pr-opened");
+    assert.equal(result.report?.attempts.find((a) => a.candidate === 1)?.timedOut, true);
+    assert.equal(result.report?.attempts.find((a) => a.candidate === 2)?.verification?.passed, true);
+  } finally {
+    process.env.PATH = originalPath;
+  }
+});
+
+// Pushes a branch with an earlier fix attempt for issue #7, then leaves the checkout on main
+async function pushEarlierBranch(repoRoot: string, branch: string): Promise<void> {
+  const git = (cmd: string) => exec(`git ${cmd}`, { silent: true, cwd: repoRoot });
+  await git(`checkout -q -b ${branch}`);
+  fs.writeFileSync(path.join(repoRoot, "notes.txt"), `earlier attempt on ${branch}\n`);
+  await git("add -A");
+  await git("commit -qm earlier");
+  await git(`push -q origin ${branch}`);
+  await git("checkout -q main");
+}
+
+test("runPipeline continues on the open autofix PR, rebased onto the base branch", async () => {
+  const { repoRoot, origin } = createTempRepo();
+  await pushEarlierBranch(repoRoot, "qa/issue-7-1000");
+  await pushEarlierBranch(repoRoot, "qa/issue-7-500");
+  // The base branch moved on since the earlier run
+  fs.writeFileSync(path.join(repoRoot, "base.txt"), "new on main\n");
+  await exec("git add -A && git commit -qm base && git push -q origin main", { silent: true, cwd: repoRoot });
+  const github = fakeGitHub();
+  const earlier = await github.createPullRequest({ title: "Fix", head: "qa/issue-7-1000", base: "main", body: "" });
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-updated");
+  assert.equal(result.prUrl, earlier.url);
+  assert.equal(github.pullRequests.length, 1);
+  const files = await exec(`git --git-dir=${origin} ls-tree --name-only qa/issue-7-1000`, { silent: true });
+  assert.deepEqual(files.stdout.trim().split("\n"), ["app.txt", "base.txt", "notes.txt"]);
+  const branches = await exec(`git --git-dir=${origin} branch --list 'qa/*'`, { silent: true });
+  assert.equal(branches.stdout.trim(), "qa/issue-7-1000");
+  assert.equal(github.comments[0].issueNumber, 7);
+  assert.match(github.comments[0].body, new RegExp(`^I updated the open PR for this issue: ${earlier.url}\n`));
+  assert.match(github.comments[1].body, /^I pushed a new fix for #7, rebased onto main/);
+  assert.equal(github.comments[1].issueNumber, earlier.number);
+});
+
+test("runPipeline leaves an existing autofix branch alone under on-existing skip", async () => {
+  const { repoRoot } = createTempRepo();
+  await pushEarlierBranch(repoRoot, "qa/issue-7-1000");
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { onExisting: "skip" }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "skipped");
+  assert.equal(agent.prompts.length, 0);
+  assert.equal(
+    github.comments[0].body,
+    "This issue already has an autofix branch: `qa/issue-7-1000`. Not starting another fix (on-existing: skip)."
+  );
+});
+
+test("runPipeline opens another PR under on-existing new", async () => {
+  const { repoRoot } = createTempRepo();
+  await pushEarlierBranch(repoRoot, "qa/issue-7-1000");
+  const github = fakeGitHub();
+  await github.createPullRequest({ title: "Fix", head: "qa/issue-7-1000", base: "main", body: "" });
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { onExisting: "new" }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(github.pullRequests.length, 2);
+  assert.notEqual(github.pullRequests[1].headRef, "qa/issue-7-1000");
+});
+
+test("runPipeline stops with a comment while another run holds the lock of the issue", async () => {
+  const { repoRoot } = createTempRepo();
+  const other = await acquireIssueLock({ repoRoot, issueNumber: 7, leaseMs: 60_000 }, { exec });
+  assert.ok("lock" in other);
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "skipped");
+  assert.equal(result.message, "Another run holds the lock of issue #7.");
+  assert.equal(agent.prompts.length, 0);
+  assert.match(github.comments[0].body, /^Another autofix run is already working on this issue\. Not starting/);
+  // The lock still belongs to the other run
+  const ref = await exec("git ls-remote origin refs/autofix-locks/issue-7", { silent: true, cwd: repoRoot });
+  assert.match(ref.stdout, new RegExp(`^${other.lock.sha}\t`));
+});
+
+test("runPipeline takes over an expired lock and releases it when done", async () => {
+  const { repoRoot } = createTempRepo();
+  const expired = await acquireIssueLock({ repoRoot, issueNumber: 7, leaseMs: -1 }, { exec });
+  assert.ok("lock" in expired);
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  const ref = await exec("git ls-remote origin refs/autofix-locks/issue-7", { silent: true, cwd: repoRoot });
+  assert.equal(ref.stdout, "");
+});
+
+test("runPipeline skips issues without the required label", async () => {
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(["bug"]),
+    pipelineConfig("/nonexistent"),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "skipped");
+  assert.equal(agent.prompts.length, 0);
+  assert.equal(github.comments.length, 0);
+});
+
+test("runPipeline ignores the status labels it adds itself", async () => {
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+  const event = labeledIssueEvent(["autofix", "autofix:in-progress"]);
+
+  const result = await runPipeline(
+    { ...event, payload: { ...event.payload, label: { name: "autofix:in-progress" } } },
+    pipelineConfig("/nonexistent"),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "skipped");
+  assert.equal(agent.prompts.length, 0);
+  assert.equal(github.comments.length, 0);
+});
+
+test("runPipeline fails with a comment when the base branch does not exist", async () => {
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig("/nonexistent", { baseBranchInput: "release" }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.match(result.message, /Base branch 'release' does not exist in acme\/widgets/);
+  assert.equal(agent.prompts.length, 0);
+  assert.deepEqual(
+    github.comments.map((c) => c.issueNumber),
+    [7]
+  );
+});
+
+test("runPipeline ignores /autofix commands from users without write access", async () => {
+  const github = fakeGitHub();
+  github.permissions.set("outsider", "read");
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    {
+      eventName: "issue_comment",
+      payload: {
+        action: "created",
+        issue: { number: 7 },
+        comment: { id: 1, body: "/autofix", user: { login: "outsider" } },
+      },
+    },
+    pipelineConfig("/nonexistent"),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "skipped");
+  assert.equal(github.reactions.length, 0);
+  assert.equal(agent.prompts.length, 0);
+});
+
+test("runPipeline ignores /autofix commands when the permission lookup fails", async () => {
+  const github = fakeGitHub();
+  github.getCollaboratorPermission = async () => {
+    throw new Error("Not Found");
+  };
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    {
+      eventName: "issue_comment",
+      payload: {
+        action: "created",
+        issue: { number: 7 },
+        comment: { id: 1, body: "/autofix", user: { login: "ghost" } },
+      },
+    },
+    pipelineConfig("/nonexistent"),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "skipped");
+  assert.equal(result.message, "User 'ghost' does not have write access to acme/widgets. Skipping.");
+  assert.equal(agent.prompts.length, 0);
+});
+
+test("runPipeline pushes a follow-up commit for a change-requesting review", async () => {
+  const { repoRoot, origin } = createTempRepo();
+  await exec("git push -q origin main:qa/issue-7-1", { silent: true, cwd: repoRoot });
+  const github = fakeGitHub();
+  github.permissions.set("reviewer", "write");
+  github.reviewComments = [{ path: "app.txt", line: 1, diffHunk: "", body: "Say fixed." }];
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    {
+      eventName: "pull_request_review",
+      payload: {
+        action: "submitted",
+        review: { id: 5, state: "changes_requested", body: "", user: { login: "reviewer" } },
+        pull_request: {
+          number: 12,
+          html_url: "https://github.com/acme/widgets/pull/12",
+          head: { ref: "qa/issue-7-1" },
+          base: { ref: "main" },
+        },
+      },
+    },
+    pipelineConfig(repoRoot),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-updated");
+  assert.equal(result.prUrl, "https://github.com/acme/widgets/pull/12");
+  assert.match(agent.prompts[0], /Say fixed\./);
+  assert.equal(github.pullRequests.length, 0);
+  assert.equal(github.comments[0].issueNumber, 12);
+  assert.match(github.comments[0].body, /to address the review feedback/);
+  const pushed = await exec(`git --git-dir=${origin} show qa/issue-7-1:app.txt`, { silent: true });
+  assert.equal(pushed.stdout, "fixed\n");
+});
+
+test("runPipeline stops with a comment and a label when the bug is not reproduced", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { testCommandSpecific: "true" }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.match(result.message, /^Bug not reproduced/);
+  assert.equal(agent.prompts.length, 0);
+  assert.equal(github.comments.length, 1);
+  assert.match(github.comments[0].body, /couldn't reproduce this bug on the base branch `main`/);
+  assert.deepEqual(github.labels.at(-1), { issueNumber: 7, labels: ["autofix:not-reproducible"] });
+  assert.deepEqual(github.removedLabels, [{ issueNumber: 7, label: "autofix:in-progress" }]);
+});
+
+test("runPipeline runs the agent on an unreproduced bug under the warn policy", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { testCommandSpecific: "true", reproductionPolicy: "warn" }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.doesNotMatch(agent.prompts[0], /write a test that reproduces the bug/);
+  assert.ok(!github.labels.some((l) => l.labels.includes("autofix:not-reproducible")));
+});
+
+// Commits a test runner that runs each test file it is given, and passes without any
+async function pushTestRunner(repoRoot: string): Promise<string> {
+  fs.writeFileSync(path.join(repoRoot, "run-tests.sh"), 'for f in "$@"; do sh "$f" || exit 1; done\n');
+  await exec("git add -A && git commit -qm runner && git push -q origin main", { silent: true, cwd: repoRoot });
+  return "sh run-tests.sh";
+}
+
+test("runPipeline rejects a fix without a reproducing test under ask-agent-to-write-test", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, {
+      retryMax: 1,
+      testCommandSpecific: await pushTestRunner(repoRoot),
+      reproductionPolicy: "ask-agent-to-write-test",
+    }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.equal(result.message, "codex did not add a test that reproduces the bug.");
+  assert.match(agent.prompts[0], /First write a test that reproduces the bug/);
+  assert.match(github.comments[0].body, /The change adds no test\./);
+  assert.equal(github.pullRequests.length, 0);
+});
+
+test("runPipeline rejects a new test that passes without the fix", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fixApp(params);
+    fs.writeFileSync(path.join(params.repoRoot, "app.test.sh"), "true\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, {
+      retryMax: 1,
+      testCommandSpecific: await pushTestRunner(repoRoot),
+      reproductionPolicy: "ask-agent-to-write-test",
+    }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.match(github.comments[0].body, /The new tests \(app\.test\.sh\) pass without the fix/);
+  // The change is back in place after the check
+  assert.equal(fs.readFileSync(path.join(repoRoot, "app.txt"), "utf8"), "fixed\n");
+});
+
+test("runPipeline opens a PR with a new test that fails without the fix and passes with it", async () => {
+  const { repoRoot, origin } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fixApp(params);
+    fs.writeFileSync(path.join(params.repoRoot, "app.test.sh"), "grep -q fixed app.txt\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, {
+      testCommandSpecific: await pushTestRunner(repoRoot),
+      reproductionPolicy: "ask-agent-to-write-test",
+    }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  const files = await exec(`git --git-dir=${origin} ls-tree --name-only ${github.pullRequests[0].headRef}`, {
+    silent: true,
+  });
+  assert.deepEqual(files.stdout.trim().split("\n"), ["app.test.sh", "app.txt", "run-tests.sh"]);
+});
+
+test("runPipeline accepts a test case added to the reproducing test under ask-agent-to-write-test", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  fs.writeFileSync(path.join(repoRoot, "app.test.sh"), "true\n");
+  const runner = await pushTestRunner(repoRoot);
+  const agent = createFakeAgent("codex", (params) => {
+    fixApp(params);
+    fs.appendFileSync(path.join(params.repoRoot, "app.test.sh"), "grep -q fixed app.txt\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, {
+      testCommandSpecific: `${runner} app.test.sh`,
+      reproductionPolicy: "ask-agent-to-write-test",
+    }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(agent.prompts.length, 1);
+  assert.match(agent.prompts[0], /Add the reproducing test without changing existing tests/);
+});
+
+test("runPipeline does not open a PR when the suite passes but the specific test still fails", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fs.writeFileSync(path.join(params.repoRoot, "other.txt"), "unrelated\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { retryMax: 1, testCommandSuite: "true" }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.equal(result.message, "Specific test failed after 1 attempt(s); PR not opened.");
+  assert.equal(github.pullRequests.length, 0);
+});
+
+test("runPipeline verifies the fix of Aider's native loop before opening a PR", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const aider = createFakeAgent("aider", () => ({
+    stdout: "Tests still failing, giving up.",
+    stderr: "",
+    exitCode: 0,
+  }));
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { agentChain: [{ type: "aider", model: "test-model", version: "" }] }),
+    pipelineDeps(github, { aider })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.equal(result.message, "Aider's fix failed verification (specific test).");
+  assert.equal(github.pullRequests.length, 0);
+  assert.match(
+    github.comments[0].body,
+    /<summary>Aider finished, but the specific test still failed\. PR not opened\./
+  );
+});
+
+// TAP suite with a test that already fails on the base branch
+const RED_SUITE =
+  'echo "not ok 1 - legacy is broken"; ' +
+  'if grep -q fixed app.txt; then echo "ok 2 - app works"; else echo "not ok 2 - app works"; fi; ' +
+  'if [ -f other.txt ]; then echo "not ok 3 - other works"; else echo "ok 3 - other works"; fi; ' +
+  "exit 1";
+
+test("runPipeline opens a PR when the suite only has failures from the baseline", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { testCommandSuite: RED_SUITE, testReport: { format: "tap", path: "" } }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(agent.prompts.length, 1);
+});
+
+test("runPipeline treats new suite failures as regressions", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fixApp(params);
+    fs.writeFileSync(path.join(params.repoRoot, "other.txt"), "broken\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { retryMax: 1, testCommandSuite: RED_SUITE, testReport: { format: "tap", path: "" } }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.equal(result.message, "Full test suite failed after 1 attempt(s); PR not opened.");
+  // Only the new failure is listed; the baseline failure shows up in the raw output alone
+  assert.match(
+    github.comments[0].body,
+    /New test failures compared to the baseline run before the fix:\n- other works\n\n/
+  );
+});
+
+test("runPipeline treats a suite that stops early as a regression", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fixApp(params);
+    fs.writeFileSync(path.join(params.repoRoot, "crash.txt"), "crash\n");
+  });
+  // Crashes after the first test once crash.txt exists
+  const suite = 'echo "ok 1 - app works"; if [ -f crash.txt ]; then exit 1; fi; echo "ok 2 - other works"';
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { retryMax: 1, testCommandSuite: suite, testReport: { format: "tap", path: "" } }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.equal(github.pullRequests.length, 0);
+  assert.match(
+    github.comments[0].body,
+    /New test failures compared to the baseline run before the fix:\n- other works \(did not run\)\n/
+  );
+});
+
+test("runPipeline requires a passing suite without a test report", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { retryMax: 1, testCommandSuite: RED_SUITE }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.equal(github.pullRequests.length, 0);
+});
+
+// Shell snippet that succeeds only on the given run of the command, counting runs in a temp file
+function onlyOnRun(counterFile: string, run: number): string {
+  return `{ n=$(cat ${counterFile} 2>/dev/null || echo 0); n=$((n+1)); echo $n > ${counterFile}; [ $n -eq ${run} ]; }`;
+}
+
+test("runPipeline reports a specific test that passes on a re-run as flaky instead of retrying", async () => {
+  const { repoRoot } = createTempRepo();
+  const counter = path.join(path.dirname(repoRoot), "specific-runs");
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+
+  // Once fixed, fails on the first verification run and passes on the re-run
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, {
+      flakyReruns: 1,
+      testCommandSpecific: `grep -q fixed app.txt && ${onlyOnRun(counter, 2)}`,
+    }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(agent.prompts.length, 1);
+  assert.match(github.pullRequests[0].body, /They look flaky[\s\S]*- Specific test\n/);
+  assert.match(github.comments[0].body, /They look flaky/);
+});
+
+test("runPipeline reports flaky suite tests by name", async () => {
+  const { repoRoot } = createTempRepo();
+  const counter = path.join(path.dirname(repoRoot), "suite-runs");
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", fixApp);
+
+  // The timing test fails only on the first verification run (run 2; run 1 is the baseline)
+  const suite =
+    'echo "ok 1 - app works"; ' +
+    `if ${onlyOnRun(counter, 2)}; then echo "not ok 2 - timing"; exit 1; else echo "ok 2 - timing"; fi`;
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { flakyReruns: 2, testCommandSuite: suite, testReport: { format: "tap", path: "" } }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.equal(agent.prompts.length, 1);
+  assert.match(github.pullRequests[0].body, /- Full test suite: `timing`\n/);
+});
+
+test("runPipeline retries when a failure happens on every re-run", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params) => {
+    fs.writeFileSync(path.join(params.repoRoot, "app.txt"), "still broken\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, { retryMax: 1, flakyReruns: 2 }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "failed");
+  assert.equal(github.pullRequests.length, 0);
+});
+
+test("runPipeline feeds a summary of the failing tests back to the agent", async () => {
+  const { repoRoot } = createTempRepo();
+  const github = fakeGitHub();
+  const agent = createFakeAgent("codex", (params, call) => {
+    if (call === 1) fixApp(params);
+    else fs.writeFileSync(path.join(params.repoRoot, "app.txt"), "still broken\n");
+  });
+
+  const result = await runPipeline(
+    labeledIssueEvent(),
+    pipelineConfig(repoRoot, {
+      testCommandSpecific:
+        'grep -q fixed app.txt || { echo "=== RUN   TestApp"; echo "    app_test.go:3: app.txt is not fixed"; ' +
+        'echo "--- FAIL: TestApp (0.00s)"; echo FAIL; exit 1; }',
+    }),
+    pipelineDeps(github, { codex: agent })
+  );
+
+  assert.equal(result.outcome, "pr-opened");
+  assert.match(
+    agent.prompts[0],
+    /FAILING TESTS \(1, parsed from go output\):\n\n1\. TestApp\n {3}app\.txt is not fixed\n {3}at app_test\.go:3/
+  );
+  assert.match(agent.prompts[1], /PREVIOUS TEST FAILURE OUTPUT:\nFAILING TESTS \(1, parsed from go output\)/);
+});
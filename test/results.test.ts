@@ -0,0 +1,85 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { findNewFailures, parseJUnitXml, parseTap, parseTestReportFormat } from "../src/results";
+
+test("parseTestReportFormat returns undefined when not configured", () => {
+  assert.equal(parseTestReportFormat(""), undefined);
+  assert.equal(parseTestReportFormat("none"), undefined);
+});
+
+test("parseTestReportFormat accepts junit and tap", () => {
+  assert.equal(parseTestReportFormat("junit"), "junit");
+  assert.equal(parseTestReportFormat(" TAP "), "tap");
+});
+
+test("parseTestReportFormat rejects unknown formats", () => {
+  assert.throws(() => parseTestReportFormat("xunit"), /Invalid test-report-format 'xunit'/);
+});
+
+test("parseJUnitXml reads passed, failed, errored and skipped test cases", () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="math" tests="4">
+    <testcase classname="math" name="adds" time="0.01"/>
+    <testcase classname="math" name="divides &amp; rounds" time="0.02">
+      <failure message="expected 2">AssertionError: expected 2</failure>
+    </testcase>
+    <testcase classname="math" name="parses"><error message="boom"/></testcase>
+    <testcase classname='math' name='skips'><skipped/></testcase>
+  </testsuite>
+</testsuites>`;
+
+  assert.deepEqual(parseJUnitXml(xml), {
+    "math.adds": "passed",
+    "math.divides & rounds": "failed",
+    "math.parses": "failed",
+    "math.skips": "skipped",
+  });
+});
+
+test("parseJUnitXml uses the name alone without a classname", () => {
+  assert.deepEqual(parseJUnitXml('<testcase name="works"></testcase>'), { works: "passed" });
+});
+
+test("parseTap reads test points, subtests and directives", () => {
+  const tap = [
+    "TAP version 13",
+    "# Subtest: parser",
+    "    ok 1 - parses numbers",
+    "    not ok 2 - parses dates",
+    "      ---",
+    "      duration_ms: 1.2",
+    "      ...",
+    "not ok 1 - parser",
+    "ok 2 - formats # SKIP not supported",
+    "not ok 3 - exports # TODO later",
+    "ok 4 plain name",
+    "1..4",
+  ].join("\n");
+
+  assert.deepEqual(parseTap(tap), {
+    "parses numbers": "passed",
+    "parses dates": "failed",
+    parser: "failed",
+    formats: "skipped",
+    exports: "skipped",
+    "plain name": "passed",
+  });
+});
+
+test("parseTap keeps a failure over a later pass of the same name", () => {
+  assert.deepEqual(parseTap("not ok 1 - flaky\nok 2 - flaky"), { flaky: "failed" });
+});
+
+test("findNewFailures ignores failures that are already in the baseline", () => {
+  const baseline = { legacy: "failed", app: "failed", other: "passed" } as const;
+  const current = { legacy: "failed", app: "passed", other: "failed", added: "failed" } as const;
+  assert.deepEqual(findNewFailures(baseline, current), ["other", "added"]);
+});
+
+test("findNewFailures counts passing baseline tests that did not run as failures", () => {
+  const baseline = { legacy: "failed", app: "passed", other: "passed", gone: "skipped" } as const;
+  const current = { app: "passed" } as const;
+  assert.deepEqual(findNewFailures(baseline, current), ["other"]);
+});
@@ -0,0 +1,46 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { firewallCommands, parseNameservers, workingTreeAclCommands } from "../src/sandbox";
+
+test("firewallCommands allows loopback, the resolver and the allowlisted addresses, and rejects the rest", () => {
+  const commands = firewallCommands("autofix-sandbox", ["104.18.6.192", "162.159.140.245"], ["10.0.0.53"]);
+  assert.deepEqual(commands.slice(1, -2), [
+    "iptables -A AUTOFIX_SANDBOX -o lo -j ACCEPT",
+    "iptables -A AUTOFIX_SANDBOX -d 10.0.0.53 -p udp --dport 53 -j ACCEPT",
+    "iptables -A AUTOFIX_SANDBOX -d 10.0.0.53 -p tcp --dport 53 -j ACCEPT",
+    "iptables -A AUTOFIX_SANDBOX -d 104.18.6.192 -j ACCEPT",
+    "iptables -A AUTOFIX_SANDBOX -d 162.159.140.245 -j ACCEPT",
+    "iptables -A AUTOFIX_SANDBOX -j REJECT",
+  ]);
+  // Only the sandbox user's traffic goes through the chain, and the rule is added once
+  assert.match(
+    commands[commands.length - 2],
+    /iptables -C OUTPUT -m owner --uid-owner autofix-sandbox -j AUTOFIX_SANDBOX/
+  );
+  assert.match(commands[commands.length - 1], /^ip6tables .* -j REJECT$/);
+});
+
+test("parseNameservers reads the IPv4 nameservers of resolv.conf", () => {
+  const resolvConf = [
+    "# Generated by NetworkManager",
+    "search example.internal",
+    "nameserver 127.0.0.53",
+    "nameserver ::1",
+    "  nameserver 10.0.0.53  # secondary",
+    "nameserver 127.0.0.53",
+    "options edns0",
+  ].join("\n");
+  assert.deepEqual(parseNameservers(resolvConf), ["127.0.0.53", "10.0.0.53"]);
+});
+
+test("workingTreeAclCommands leave .git out of the write access", () => {
+  const commands = workingTreeAclCommands("autofix-sandbox", "runner", "/work/repo", [".git", "src", "package.json"]);
+  const acl = "u:autofix-sandbox:rwX,u:runner:rwX,d:u:autofix-sandbox:rwX,d:u:runner:rwX";
+  assert.deepEqual(commands, [
+    `setfacl -m ${acl} '/work/repo'`,
+    `setfacl -R -P -m ${acl} '/work/repo/src'`,
+    `setfacl -R -P -m ${acl} '/work/repo/package.json'`,
+  ]);
+  assert.ok(commands.every((cmd) => !cmd.includes(".git")));
+});
@@ -0,0 +1,106 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  addUsage,
+  checkBudget,
+  costOf,
+  estimateTokens,
+  estimateUsage,
+  formatUsage,
+  lookupModelPricing,
+  parseAgentUsage,
+  usageFromCompletion,
+} from "../src/usage";
+
+test("lookupModelPricing matches the longest known prefix", () => {
+  assert.deepEqual(lookupModelPricing("gpt-4o-mini-2024-07-18"), { input: 0.15, output: 0.6 });
+  assert.deepEqual(lookupModelPricing("gpt-4o"), { input: 2.5, output: 10 });
+  assert.deepEqual(lookupModelPricing("gpt-5-codex"), { input: 1.25, output: 10 });
+});
+
+test("lookupModelPricing ignores provider prefixes and case", () => {
+  assert.deepEqual(lookupModelPricing("anthropic/Claude-3-5-Sonnet-20241022"), { input: 3, output: 15 });
+  assert.equal(lookupModelPricing("my-local-model"), undefined);
+});
+
+test("costOf prices tokens per million", () => {
+  assert.equal(costOf("gpt-4o", 1_000_000, 100_000), 3.5);
+  assert.equal(costOf("unknown", 1000, 1000), undefined);
+});
+
+test("estimateUsage estimates tokens from text length", () => {
+  assert.equal(estimateTokens("abcdefgh"), 2);
+  assert.equal(estimateTokens("abcde"), 2);
+  assert.deepEqual(estimateUsage("unknown", "x".repeat(400), "y".repeat(40)), {
+    inputTokens: 100,
+    outputTokens: 10,
+    costUsd: undefined,
+    estimated: true,
+  });
+});
+
+test("addUsage drops the cost when one side is unpriced", () => {
+  const priced = { inputTokens: 10, outputTokens: 5, costUsd: 0.01, estimated: false };
+  const unpriced = { inputTokens: 1, outputTokens: 1, costUsd: undefined, estimated: true };
+  assert.deepEqual(addUsage(priced, priced), { inputTokens: 20, outputTokens: 10, costUsd: 0.02, estimated: false });
+  assert.deepEqual(addUsage(priced, unpriced), {
+    inputTokens: 11,
+    outputTokens: 6,
+    costUsd: undefined,
+    estimated: true,
+  });
+});
+
+test("parseAgentUsage sums the token and cost lines of Aider", () => {
+  const output = [
+    "Tokens: 4.2k sent, 1.1k cache write, 312 received. Cost: $0.02 message, $0.02 session.",
+    "Applied edit to app.ts",
+    "Tokens: 1,500 sent, 88 received. Cost: $0.01 message, $0.03 session.",
+  ].join("\n");
+  const usage = parseAgentUsage("aider", "gpt-4o", output);
+  assert.equal(usage?.inputTokens, 5700);
+  assert.equal(usage?.outputTokens, 400);
+  assert.ok(Math.abs((usage?.costUsd ?? 0) - 0.03) < 1e-9);
+  assert.equal(usage?.estimated, false);
+});
+
+test("parseAgentUsage takes the last running total of Codex", () => {
+  const usage = parseAgentUsage("codex", "gpt-4o", "tokens used: 1,200\n...\ntokens used\n4,000\n");
+  assert.deepEqual(usage, { inputTokens: 4000, outputTokens: 0, costUsd: 0.01, estimated: false });
+});
+
+test("parseAgentUsage returns undefined without usage lines", () => {
+  assert.equal(parseAgentUsage("aider", "gpt-4o", "Applied edit to app.ts"), undefined);
+  assert.equal(parseAgentUsage("claude", "claude-sonnet-4-5", "tokens used: 10"), undefined);
+});
+
+test("usageFromCompletion prices the usage of an OpenAI response", () => {
+  assert.deepEqual(usageFromCompletion("gpt-4o", { prompt_tokens: 1000, completion_tokens: 100 }), {
+    inputTokens: 1000,
+    outputTokens: 100,
+    costUsd: 0.0035,
+    estimated: false,
+  });
+  assert.equal(usageFromCompletion("gpt-4o", undefined), undefined);
+});
+
+test("checkBudget reports the first limit that is reached", () => {
+  const usage = { inputTokens: 900, outputTokens: 100, costUsd: 0.5, estimated: false };
+  assert.equal(checkBudget(usage, {}), undefined);
+  assert.equal(checkBudget(usage, { maxTokens: 2000, maxCostUsd: 1 }), undefined);
+  assert.match(checkBudget(usage, { maxTokens: 1000 }) ?? "", /used 1,000 tokens, which reaches max-tokens \(1,000\)/);
+  assert.match(checkBudget(usage, { maxCostUsd: 0.5 }) ?? "", /cost \$0\.50, which reaches max-cost-usd \(\$0\.50\)/);
+  assert.equal(checkBudget({ ...usage, costUsd: undefined }, { maxCostUsd: 0.1 }), undefined);
+});
+
+test("formatUsage marks estimated and unpriced usage", () => {
+  assert.equal(
+    formatUsage({ inputTokens: 12345, outputTokens: 678, costUsd: 0.004, estimated: true }),
+    "Token usage: 12,345 input, 678 output. Cost: $0.0040 (partly estimated from text length)."
+  );
+  assert.equal(
+    formatUsage({ inputTokens: 1, outputTokens: 2, estimated: false }),
+    "Token usage: 1 input, 2 output. Cost: unknown (no pricing for the model)."
+  );
+});